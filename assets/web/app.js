@@ -70,10 +70,22 @@ function getFullUrl(path) {
     return `${origin}${normalizedPath}`;
 }
 
+// 私有订阅的访问令牌，来自页面地址 ?token=
+const ACCESS_TOKEN = new URLSearchParams(window.location.search).get('token');
+
 async function loadPodcasts() {
     try {
-        const response = await fetch('/podcasts');
+        const response = await fetch(ACCESS_TOKEN ? `/podcasts?token=${encodeURIComponent(ACCESS_TOKEN)}` : '/podcasts');
+        if (response.status === 401 || response.status === 403) {
+            document.getElementById('podcast-list').innerHTML = `
+                <div class="error">
+                    需要有效的访问令牌，请使用带 ?token= 的链接打开本页面
+                </div>
+            `;
+            return;
+        }
         const data = await response.json();
+        renderToolbar(data.podcasts);
         renderPodcasts(data.podcasts);
     } catch (error) {
         console.error('加载播客列表失败:', error);
@@ -85,49 +97,230 @@ async function loadPodcasts() {
     }
 }
 
+// OPML 下载地址：可按标签导出子集，私有订阅时带上令牌
+function getOpmlUrl(tag) {
+    const params = new URLSearchParams();
+    if (tag) params.set('tag', tag);
+    if (ACCESS_TOKEN) params.set('token', ACCESS_TOKEN);
+    const query = params.toString();
+    return query ? `/opml?${query}` : '/opml';
+}
+
+// 剧集页面（网页播放器），私有订阅时带上令牌
+function getEpisodesPageUrl(dirName, episodeId) {
+    const params = new URLSearchParams({ dir: dirName });
+    if (ACCESS_TOKEN) params.set('token', ACCESS_TOKEN);
+    return `/web/podcast.html?${params}${episodeId ? `#${encodeURIComponent(episodeId)}` : ''}`;
+}
+
+const SEARCH_FIELD_LABELS = {
+    podcast: '播客标题',
+    description: '简介',
+    episode: '剧集标题',
+    note: '笔记',
+    transcript: '转录'
+};
+
+async function searchPodcasts(event) {
+    event.preventDefault();
+    const container = document.getElementById('search-results');
+    const query = document.getElementById('search-input').value.trim();
+    if (!query) {
+        container.hidden = true;
+        return;
+    }
+
+    container.hidden = false;
+    container.textContent = '搜索中...';
+    try {
+        const params = new URLSearchParams({ q: query });
+        if (ACCESS_TOKEN) params.set('token', ACCESS_TOKEN);
+        const response = await fetch(`/search?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || response.statusText);
+        }
+        renderSearchResults(container, data.results);
+    } catch (error) {
+        console.error('搜索失败:', error);
+        container.textContent = '搜索失败，请稍后重试';
+    }
+}
+
+// 搜索结果链接到剧集页面并定位到命中的剧集；片段来自笔记等文件，只以文本方式插入
+function renderSearchResults(container, results) {
+    container.innerHTML = '';
+    if (results.length === 0) {
+        container.textContent = '没有找到相关内容';
+        return;
+    }
+
+    const list = document.createElement('ul');
+    list.className = 'search-result-list';
+    for (const result of results) {
+        const item = document.createElement('li');
+        const link = document.createElement('a');
+        link.href = getEpisodesPageUrl(result.dirName, result.episodeId);
+        link.textContent = result.episodeTitle ?? result.podcastTitle;
+        item.appendChild(link);
+        if (result.episodeTitle) {
+            const podcast = document.createElement('span');
+            podcast.className = 'podcast-meta';
+            podcast.textContent = ` · ${result.podcastTitle}`;
+            item.appendChild(podcast);
+        }
+        for (const match of result.matches) {
+            const snippet = document.createElement('div');
+            snippet.className = 'search-snippet';
+            const label = match.file ? `${SEARCH_FIELD_LABELS[match.field]}（${match.file}）` : SEARCH_FIELD_LABELS[match.field];
+            snippet.textContent = `${label}：${match.snippet}`;
+            item.appendChild(snippet);
+        }
+        list.appendChild(item);
+    }
+    container.appendChild(list);
+}
+
+// 标签链接：下载该标签的 OPML
+function renderTagLink(tag) {
+    return `<a class="podcast-tag" href="${escapeHtml(getOpmlUrl(tag))}" download title="下载「${escapeHtml(tag)}」标签的 OPML">${escapeHtml(tag)}</a>`;
+}
+
+function renderToolbar(podcasts) {
+    const tags = [...new Set(podcasts.filter(p => !p.virtual).flatMap(p => p.tags || []))].sort();
+    document.getElementById('toolbar').innerHTML = `
+        <a class="subscribe-button opml-button" href="${escapeHtml(getOpmlUrl())}" download>下载 OPML</a>
+        ${ACCESS_TOKEN ? '' : '<a class="subscribe-button opml-button" href="/web/stats.html">收听统计</a>'}
+        ${tags.map(renderTagLink).join('')}
+    `;
+}
+
 function renderPodcasts(podcasts) {
     const podcastList = document.getElementById('podcast-list');
     podcastList.innerHTML = podcasts.map(podcast => {
-        const fullFeedUrl = getFullUrl(podcast.feedUrl);
+        // 首次处理就失败且没有可恢复的 feed 时没有订阅地址
+        const fullFeedUrl = podcast.feedUrl ? getFullUrl(podcast.feedUrl) : null;
         return `
             <div class="podcast-card">
                 <div class="podcast-header">
-                    <img class="podcast-cover" src="${podcast.coverUrl}" alt="${podcast.title} 封面">
+                    <img class="podcast-cover" src="${escapeHtml(podcast.coverUrl)}" alt="${escapeHtml(podcast.title)} 封面">
                     <div class="podcast-info">
-                        <div class="podcast-title">${podcast.title}</div>
-                        <div class="podcast-description">${podcast.description}</div>
+                        <div class="podcast-title">${escapeHtml(podcast.title)}${renderStatusBadge(podcast)}</div>
+                        <div class="podcast-description">${escapeHtml(podcast.description)}</div>
                         <div class="podcast-meta">
-                            剧集数量: ${podcast.episodeCount}
+                            ${podcast.virtual ? '虚拟 feed · ' : ''}剧集数量: ${escapeHtml(podcast.episodeCount)}
                             ${podcast.latestEpisodeDate ? `· 最新更新: ${new Date(podcast.latestEpisodeDate).toLocaleDateString()}` : ''}
                         </div>
+                        ${podcast.tags && podcast.tags.length ? `
+                        <div class="podcast-tags">
+                            ${podcast.tags.map(renderTagLink).join('')}
+                        </div>` : ''}
                     </div>
                 </div>
+                <div class="diagnostics-panel" hidden></div>
+                ${fullFeedUrl ? `
                 <div class="subscribe-section">
                     <div class="feed-url-section">
                         <input type="text" 
                                class="feed-url" 
-                               value="${fullFeedUrl}" 
+                               value="${escapeHtml(fullFeedUrl)}" 
                                readonly
                                onclick="this.select()"
                         >
-                        <button class="subscribe-button copy-button" onclick="copyFeedUrl(this, '${fullFeedUrl}')">
+                        <button class="subscribe-button copy-button"
+                                data-url="${escapeHtml(fullFeedUrl)}"
+                                onclick="copyFeedUrl(this, this.dataset.url)">
                             复制订阅地址
                         </button>
                     </div>
+                    <div class="feed-formats">
+                        其他格式：
+                        <a href="${escapeHtml(getFullUrl(podcast.atomUrl))}" target="_blank" rel="noopener noreferrer">Atom</a>
+                        ·
+                        <a href="${escapeHtml(getFullUrl(podcast.jsonUrl))}" target="_blank" rel="noopener noreferrer">JSON Feed</a>
+                    </div>
                     <div class="subscribe-buttons">
+                        ${podcast.episodeCount > 0 ? `
+                        <a class="subscribe-button listen-button" href="${escapeHtml(getEpisodesPageUrl(podcast.dirName))}">在线收听</a>` : ''}
                         ${renderSubscribeButtons(fullFeedUrl)}
+                        ${podcast.virtual ? '' : `
+                        <button class="subscribe-button settings-button"
+                                data-dir="${encodeURIComponent(podcast.dirName)}"
+                                onclick="toggleSettings(this)">
+                            设置
+                        </button>`}
+                        ${podcast.episodeCount > 0 ? `
+                        <button class="subscribe-button settings-button"
+                                data-dir="${encodeURIComponent(podcast.dirName)}"
+                                onclick="toggleProgress(this)">
+                            收听进度
+                        </button>` : ''}
                     </div>
-                </div>
+                </div>` : ''}
+                <div class="settings-panel" hidden></div>
+                <div class="settings-panel progress-panel" hidden></div>
             </div>
         `;
     }).join('');
 }
 
+// 处理出错或有警告时在标题旁显示标记，点击查看诊断信息
+function renderStatusBadge(podcast) {
+    if (!podcast.status || podcast.status === 'ok') return '';
+    const text = podcast.status === 'error' ? '处理出错' : `${podcast.issueCount} 个警告`;
+    return `
+        <button class="status-badge status-${escapeHtml(podcast.status)}"
+                data-dir="${encodeURIComponent(podcast.dirName)}"
+                onclick="toggleDiagnostics(this)">${escapeHtml(text)}</button>`;
+}
+
+async function toggleDiagnostics(button) {
+    const panel = button.closest('.podcast-card').querySelector('.diagnostics-panel');
+    if (!panel.hidden) {
+        panel.hidden = true;
+        return;
+    }
+
+    panel.hidden = false;
+    panel.innerHTML = '<div class="loading">加载诊断信息...</div>';
+    try {
+        const query = ACCESS_TOKEN ? `?token=${encodeURIComponent(ACCESS_TOKEN)}` : '';
+        const response = await fetch(`/podcasts/${button.dataset.dir}/diagnostics${query}`);
+        if (!response.ok) throw new Error(`请求失败 (${response.status})`);
+        renderDiagnostics(panel, await response.json());
+    } catch (error) {
+        panel.innerHTML = '';
+        panel.appendChild(createMessage(error.message, true));
+    }
+}
+
+function renderDiagnostics(panel, diagnostics) {
+    panel.innerHTML = '';
+    const summary = [`检查时间: ${new Date(diagnostics.checkedAt).toLocaleString()}`];
+    if (diagnostics.lastSuccessAt) {
+        summary.push(`上次成功: ${new Date(diagnostics.lastSuccessAt).toLocaleString()}`);
+    }
+    if (diagnostics.staleFeed) {
+        summary.push('正在提供上次成功生成的 feed');
+    }
+    panel.appendChild(createMessage(summary.join(' · '), false));
+
+    const list = document.createElement('ul');
+    list.className = 'diagnostics-list';
+    for (const issue of diagnostics.issues) {
+        const item = document.createElement('li');
+        item.className = issue.level === 'error' ? 'error' : 'warning';
+        item.textContent = issue.file ? `${issue.message}（${issue.file}）` : issue.message;
+        list.appendChild(item);
+    }
+    panel.appendChild(list);
+}
+
 function renderSubscribeButtons(feedUrl) {
     return Object.entries(PODCAST_CLIENTS)
         .filter(([_, client]) => client.scheme(feedUrl) !== null)
         .map(([key, client]) => `
-            <a href="${client.scheme(feedUrl)}" 
+            <a href="${escapeHtml(client.scheme(feedUrl))}" 
                class="subscribe-button" 
                target="_blank"
                rel="noopener noreferrer">
@@ -181,5 +374,245 @@ function updateCopyButton(button, text) {
     }, 2000);
 }
 
+// ---- 设置面板：通过管理接口编辑 podcast.json ----
+
+// 表单中直接编辑的字段，其余配置项原样保留
+const SETTINGS_FIELDS = [
+    { key: 'title', label: '标题' },
+    { key: 'description', label: '描述' },
+    { key: 'author', label: '作者' },
+    { key: 'email', label: '邮箱' },
+    { key: 'category', label: '分类' },
+    { key: 'language', label: '语言' },
+    { key: 'websiteUrl', label: '网站' },
+    { key: 'titleFormat', label: '标题格式', options: ['', 'clean', 'full'] }
+];
+
+const NUMBER_STRATEGIES = ['prefix', 'suffix', 'first', 'last', 'chinese', 'roman', 'compound', 'pattern'];
+
+// 管理口令（ADMIN_TOKEN），首次打开设置面板时输入，保存在浏览器本地
+function getAdminToken() {
+    let token = localStorage.getItem('adminToken');
+    if (!token) {
+        token = window.prompt('请输入管理口令（ADMIN_TOKEN）');
+        if (token) localStorage.setItem('adminToken', token);
+    }
+    return token;
+}
+
+async function adminRequest(dirName, action, method = 'GET', body) {
+    const token = getAdminToken();
+    if (!token) throw new Error('需要管理口令');
+
+    const response = await fetch(`/admin/podcasts/${encodeURIComponent(dirName)}/${action}`, {
+        method,
+        headers: body
+            ? { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' }
+            : { 'Authorization': `Bearer ${token}` },
+        body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401) {
+        localStorage.removeItem('adminToken');
+        throw new Error('管理口令错误');
+    }
+    if (!response.ok) {
+        throw new Error(data.error === 'Admin API is disabled'
+            ? '管理接口未开启（请设置环境变量 ADMIN_TOKEN）'
+            : (data.error || `请求失败 (${response.status})`));
+    }
+    return data;
+}
+
+async function toggleSettings(button) {
+    const card = button.closest('.podcast-card');
+    const panel = card.querySelector('.settings-panel');
+    if (!panel.hidden) {
+        panel.hidden = true;
+        return;
+    }
+
+    const dirName = decodeURIComponent(button.dataset.dir);
+    panel.hidden = false;
+    panel.innerHTML = '<div class="loading">加载配置...</div>';
+    try {
+        const data = await adminRequest(dirName, 'config');
+        renderSettings(panel, dirName, data.config, data.overridden);
+    } catch (error) {
+        panel.innerHTML = '';
+        panel.appendChild(createMessage(error.message, true));
+    }
+}
+
+function createMessage(text, isError) {
+    const message = document.createElement('div');
+    message.className = isError ? 'settings-message error' : 'settings-message';
+    message.textContent = text;
+    return message;
+}
+
+function renderSettings(panel, dirName, config, overridden) {
+    panel.innerHTML = `
+        <form class="settings-form">
+            ${SETTINGS_FIELDS.map(field => `
+                <label>
+                    <span>${field.label}</span>
+                    ${field.options
+                        ? `<select name="${field.key}">${field.options.map(o => `<option value="${o}">${o || '默认'}</option>`).join('')}</select>`
+                        : `<input type="text" name="${field.key}">`}
+                </label>
+            `).join('')}
+            <label>
+                <span>序号策略</span>
+                <select name="numberStrategy">
+                    ${NUMBER_STRATEGIES.map(s => `<option value="${s}">${s === 'pattern' ? '自定义正则' : s}</option>`).join('')}
+                </select>
+            </label>
+            <label class="pattern-field">
+                <span>正则表达式</span>
+                <input type="text" name="numberPattern" placeholder="如 EP(\\d+)">
+            </label>
+        </form>
+        <div class="settings-actions">
+            <button class="subscribe-button" data-action="preview">预览</button>
+            <button class="subscribe-button copy-button" data-action="save">保存</button>
+            <span class="settings-location">${overridden ? '配置保存在覆盖目录' : '配置保存在 podcast.json'}</span>
+        </div>
+        <div class="settings-result"></div>
+    `;
+
+    const form = panel.querySelector('form');
+    for (const field of SETTINGS_FIELDS) {
+        form.elements[field.key].value = config[field.key] || '';
+    }
+    const strategy = config.episodeNumberStrategy || 'prefix';
+    form.elements.numberStrategy.value = typeof strategy === 'object' ? 'pattern' : strategy;
+    form.elements.numberPattern.value = typeof strategy === 'object' ? strategy.pattern : '';
+
+    const updatePatternField = () => {
+        panel.querySelector('.pattern-field').hidden = form.elements.numberStrategy.value !== 'pattern';
+    };
+    form.elements.numberStrategy.addEventListener('change', updatePatternField);
+    updatePatternField();
+
+    // 表单值合并到原配置上；清空的字段删除，使用默认值
+    const collectConfig = () => {
+        const next = { ...config };
+        for (const field of SETTINGS_FIELDS) {
+            const value = form.elements[field.key].value.trim();
+            if (value) next[field.key] = value;
+            else delete next[field.key];
+        }
+        const selected = form.elements.numberStrategy.value;
+        next.episodeNumberStrategy = selected === 'pattern'
+            ? { pattern: form.elements.numberPattern.value }
+            : selected;
+        return next;
+    };
+
+    const result = panel.querySelector('.settings-result');
+    panel.querySelector('[data-action="preview"]').addEventListener('click', async () => {
+        result.innerHTML = '<div class="loading">生成预览...</div>';
+        try {
+            const data = await adminRequest(dirName, 'preview', 'POST', collectConfig());
+            renderPreview(result, data.episodes);
+        } catch (error) {
+            result.innerHTML = '';
+            result.appendChild(createMessage(error.message, true));
+        }
+    });
+    panel.querySelector('[data-action="save"]').addEventListener('click', async () => {
+        try {
+            const data = await adminRequest(dirName, 'config', 'PUT', collectConfig());
+            config = data.config;
+            panel.querySelector('.settings-location').textContent = data.overridden
+                ? '配置保存在覆盖目录'
+                : '配置保存在 podcast.json';
+            result.innerHTML = '';
+            result.appendChild(createMessage('已保存，feed 已重新生成（刷新页面查看最新信息）', false));
+        } catch (error) {
+            result.innerHTML = '';
+            result.appendChild(createMessage(error.message, true));
+        }
+    });
+}
+
+// 预览表格：季 / 序号 / 标题 / 文件
+function renderPreview(container, episodes) {
+    const table = document.createElement('table');
+    table.className = 'preview-table';
+    table.innerHTML = '<thead><tr><th>季</th><th>序号</th><th>标题</th><th>文件</th></tr></thead><tbody></tbody>';
+    const body = table.querySelector('tbody');
+    for (const episode of episodes) {
+        const row = document.createElement('tr');
+        for (const value of [episode.season ?? '', episode.number, episode.title, episode.fileName]) {
+            const cell = document.createElement('td');
+            cell.textContent = value;
+            row.appendChild(cell);
+        }
+        body.appendChild(row);
+    }
+    container.innerHTML = '';
+    container.appendChild(createMessage(`共 ${episodes.length} 集`, false));
+    container.appendChild(table);
+}
+
+// 各用户的收听进度（客户端通过 gpodder 接口同步），需要管理口令
+async function toggleProgress(button) {
+    const panel = button.closest('.podcast-card').querySelector('.progress-panel');
+    if (!panel.hidden) {
+        panel.hidden = true;
+        return;
+    }
+
+    const dirName = decodeURIComponent(button.dataset.dir);
+    panel.hidden = false;
+    panel.innerHTML = '<div class="loading">加载收听进度...</div>';
+    try {
+        const data = await adminRequest(dirName, 'progress');
+        renderProgress(panel, data);
+    } catch (error) {
+        panel.innerHTML = '';
+        panel.appendChild(createMessage(error.message, true));
+    }
+}
+
+// 进度表格：用户 / 已听完 / 收听中的剧集 / 最近收听
+function renderProgress(panel, data) {
+    panel.innerHTML = '';
+    if (data.users.length === 0) {
+        panel.appendChild(createMessage('还没有用户同步过收听进度', false));
+        return;
+    }
+
+    const table = document.createElement('table');
+    table.className = 'preview-table';
+    table.innerHTML = '<thead><tr><th>用户</th><th>已听完</th><th>收听中</th><th>最近收听</th></tr></thead><tbody></tbody>';
+    const body = table.querySelector('tbody');
+    for (const user of data.users) {
+        const listening = user.episodes
+            .filter(episode => !episode.finished)
+            .map(episode => episode.total
+                ? `${episode.title}（${Math.round(episode.position / episode.total * 100)}%）`
+                : `${episode.title}（${Math.round(episode.position / 60)} 分钟）`);
+        const row = document.createElement('tr');
+        for (const value of [
+            user.user,
+            `${user.finished} / ${data.episodeCount}`,
+            listening.join('、'),
+            user.lastActivity ? new Date(user.lastActivity).toLocaleString() : ''
+        ]) {
+            const cell = document.createElement('td');
+            cell.textContent = value;
+            row.appendChild(cell);
+        }
+        body.appendChild(row);
+    }
+    panel.appendChild(table);
+}
+
 // 页面加载完成后执行
-document.addEventListener('DOMContentLoaded', loadPodcasts); 
\ No newline at end of file
+document.addEventListener('DOMContentLoaded', () => {
+    document.getElementById('search-form').addEventListener('submit', searchPodcasts);
+    loadPodcasts();
+});
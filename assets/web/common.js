@@ -0,0 +1,11 @@
+// 首页、剧集页共用的工具函数
+
+// 插入 innerHTML 或属性值之前转义，标题、标签等来自 podcast.json，可能包含引号和尖括号
+function escapeHtml(text) {
+    return String(text ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,261 @@
+// 剧集页面：/web/podcast.html?dir=<文件夹名>，私有订阅时带 &token=<令牌>；地址中的 #<剧集 id> 定位到该集
+const PAGE_PARAMS = new URLSearchParams(window.location.search);
+const DIR_NAME = PAGE_PARAMS.get('dir');
+const ACCESS_TOKEN = PAGE_PARAMS.get('token');
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// 播放进度每隔几秒保存一次
+const SAVE_INTERVAL_SECONDS = 5;
+
+let episodes = [];
+let currentEpisode = null;
+let lastSavedPosition = 0;
+// 换源后到跳转到上次进度之前，不保存进度（此时 currentTime 为 0）
+let resumePending = false;
+
+// 秒数 -> H:MM:SS 或 M:SS
+function formatTime(seconds) {
+    const total = Math.max(0, Math.round(seconds || 0));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+function formatBytes(bytes) {
+    if (!bytes) return '';
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let n = bytes;
+    let i = 0;
+    while (n >= 1024 && i < units.length - 1) {
+        n /= 1024;
+        i += 1;
+    }
+    return `${n.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+// ---- 播放进度：保存在浏览器本地，以剧集 id（持久 GUID）为键 ----
+
+function getSavedPosition(episode) {
+    return Number(localStorage.getItem(`position:${episode.id}`)) || 0;
+}
+
+// 本地进度的记录时间，与同步的进度比较新旧
+function getSavedAt(episode) {
+    return Number(localStorage.getItem(`savedAt:${episode.id}`)) || 0;
+}
+
+function savePosition(episode, seconds, savedAt = Date.now()) {
+    localStorage.setItem(`position:${episode.id}`, String(Math.floor(seconds)));
+    localStorage.setItem(`savedAt:${episode.id}`, String(savedAt));
+    lastSavedPosition = seconds;
+}
+
+function isFinished(episode) {
+    return localStorage.getItem(`finished:${episode.id}`) === '1';
+}
+
+function markFinished(episode, savedAt = Date.now()) {
+    localStorage.removeItem(`position:${episode.id}`);
+    localStorage.setItem(`finished:${episode.id}`, '1');
+    localStorage.setItem(`savedAt:${episode.id}`, String(savedAt));
+}
+
+// 私有订阅时读取客户端（AntennaPod 等）通过 gpodder 接口同步的进度，比本地记录新时采用
+async function loadSyncedProgress() {
+    if (!ACCESS_TOKEN) return;
+    try {
+        const response = await fetch(`/podcasts/${encodeURIComponent(DIR_NAME)}/progress?token=${encodeURIComponent(ACCESS_TOKEN)}`);
+        if (!response.ok) return;
+        const { progress } = await response.json();
+        for (const episode of episodes) {
+            const synced = progress[episode.id];
+            const syncedAt = synced ? Date.parse(synced.updatedAt) : 0;
+            if (syncedAt <= getSavedAt(episode)) continue;
+            if (synced.finished) {
+                markFinished(episode, syncedAt);
+            } else {
+                localStorage.removeItem(`finished:${episode.id}`);
+                savePosition(episode, synced.position, syncedAt);
+            }
+        }
+    } catch (error) {
+        console.error('读取同步的播放进度失败:', error);
+    }
+}
+
+function getPlaybackRate() {
+    const rate = Number(localStorage.getItem('playbackRate'));
+    return PLAYBACK_RATES.includes(rate) ? rate : 1;
+}
+
+async function loadEpisodes() {
+    const list = document.getElementById('episode-list');
+    if (!DIR_NAME) {
+        list.innerHTML = '<li class="error">缺少播客参数（?dir=）</li>';
+        return;
+    }
+    if (ACCESS_TOKEN) {
+        document.getElementById('back-link').href = `/web/index.html?token=${encodeURIComponent(ACCESS_TOKEN)}`;
+    }
+
+    try {
+        const query = ACCESS_TOKEN ? `?token=${encodeURIComponent(ACCESS_TOKEN)}` : '';
+        const response = await fetch(`/podcasts/${encodeURIComponent(DIR_NAME)}${query}`);
+        if (response.status === 401 || response.status === 403) {
+            list.innerHTML = '<li class="error">需要有效的访问令牌，请使用带 ?token= 的链接打开本页面</li>';
+            return;
+        }
+        if (!response.ok) {
+            list.innerHTML = '<li class="error">播客不存在</li>';
+            return;
+        }
+        const data = await response.json();
+        episodes = data.episodes;
+        await loadSyncedProgress();
+        document.title = data.podcast.title;
+        renderHeader(data.podcast);
+        renderEpisodes();
+        highlightLinkedEpisode();
+    } catch (error) {
+        console.error('加载剧集列表失败:', error);
+        list.innerHTML = '<li class="error">加载失败，请稍后重试</li>';
+    }
+}
+
+function renderHeader(podcast) {
+    document.getElementById('podcast-header').innerHTML = `
+        <div class="podcast-card">
+            <div class="podcast-header">
+                <img class="podcast-cover" src="${escapeHtml(podcast.coverUrl)}" alt="${escapeHtml(podcast.title)} 封面">
+                <div class="podcast-info">
+                    <div class="podcast-title">${escapeHtml(podcast.title)}</div>
+                    <div class="podcast-description">${escapeHtml(podcast.description)}</div>
+                    <div class="podcast-meta">${escapeHtml(podcast.author)} · 剧集数量: ${episodes.length}</div>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderEpisodes() {
+    const list = document.getElementById('episode-list');
+    if (episodes.length === 0) {
+        list.innerHTML = '<li class="loading">暂无剧集</li>';
+        return;
+    }
+    list.innerHTML = episodes.map((episode, index) => `
+        <li class="episode-item${currentEpisode === episode ? ' playing' : ''}" id="episode-${index}">
+            <div class="episode-header">
+                <button class="subscribe-button play-button" onclick="playEpisode(${index})">
+                    ${currentEpisode === episode ? '播放中' : '播放'}
+                </button>
+                <div class="episode-info">
+                    <div class="episode-title">
+                        ${episode.seasonName ? `<span class="episode-season">${escapeHtml(episode.seasonName)}</span>` : ''}
+                        ${escapeHtml(episode.number)}. ${escapeHtml(episode.title)}
+                    </div>
+                    <div class="podcast-meta">
+                        ${new Date(episode.pubDate).toLocaleDateString()}
+                        ${episode.duration ? ` · ${formatTime(episode.duration)}` : ''}
+                        ${episode.size ? ` · ${formatBytes(episode.size)}` : ''}
+                        ${renderProgress(episode)}
+                    </div>
+                </div>
+            </div>
+            ${episode.description ? `<div class="podcast-description">${escapeHtml(episode.description)}</div>` : ''}
+            ${episode.attachments.length ? `
+            <div class="episode-attachments">
+                附件：${episode.attachments.map(attachment => `
+                    <a href="${escapeHtml(attachment.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(attachment.fileName)}</a>
+                `).join(' · ')}
+            </div>` : ''}
+        </li>
+    `).join('');
+}
+
+function renderProgress(episode) {
+    if (isFinished(episode)) return ' · 已听完';
+    const position = getSavedPosition(episode);
+    return position > 0 ? ` · 听到 ${formatTime(position)}` : '';
+}
+
+// 从地址中的 #<剧集 id> 定位到对应剧集（浏览器不允许自动播放，只滚动并高亮）
+function highlightLinkedEpisode() {
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    const index = episodes.findIndex(episode => episode.id === id);
+    if (index < 0) return;
+    const item = document.getElementById(`episode-${index}`);
+    item.classList.add('linked');
+    item.scrollIntoView({ block: 'center' });
+}
+
+function playEpisode(index) {
+    const audio = document.getElementById('audio');
+    if (canSavePosition(audio) && !audio.paused) {
+        savePosition(currentEpisode, audio.currentTime);
+    }
+
+    currentEpisode = episodes[index];
+    document.getElementById('player').hidden = false;
+    document.getElementById('player-title').textContent = currentEpisode.title;
+    audio.src = currentEpisode.url;
+    // 换源后浏览器会重置 playbackRate，以 defaultPlaybackRate 为准
+    audio.defaultPlaybackRate = getPlaybackRate();
+    audio.playbackRate = getPlaybackRate();
+
+    // 重新收听已听完的剧集
+    localStorage.removeItem(`finished:${currentEpisode.id}`);
+    const resumeAt = getSavedPosition(currentEpisode);
+    lastSavedPosition = resumeAt;
+    resumePending = true;
+    audio.addEventListener('loadedmetadata', () => {
+        if (resumeAt > 0) {
+            audio.currentTime = resumeAt;
+        }
+        resumePending = false;
+    }, { once: true });
+    audio.play().catch(error => console.error('播放失败:', error));
+    renderEpisodes();
+}
+
+// 是否可以保存当前进度：换源加载中或正在跳转时 currentTime 不可靠
+function canSavePosition(audio) {
+    return currentEpisode && !resumePending && !audio.seeking && audio.readyState > 0;
+}
+
+function initPlayer() {
+    const audio = document.getElementById('audio');
+    const rateSelect = document.getElementById('playback-rate');
+    rateSelect.innerHTML = PLAYBACK_RATES.map(rate => `<option value="${rate}">${rate}x</option>`).join('');
+    rateSelect.value = String(getPlaybackRate());
+    rateSelect.addEventListener('change', () => {
+        localStorage.setItem('playbackRate', rateSelect.value);
+        audio.defaultPlaybackRate = Number(rateSelect.value);
+        audio.playbackRate = Number(rateSelect.value);
+    });
+
+    audio.addEventListener('timeupdate', () => {
+        if (canSavePosition(audio) && Math.abs(audio.currentTime - lastSavedPosition) >= SAVE_INTERVAL_SECONDS) {
+            savePosition(currentEpisode, audio.currentTime);
+        }
+    });
+    audio.addEventListener('pause', () => {
+        if (canSavePosition(audio) && !audio.ended) {
+            savePosition(currentEpisode, audio.currentTime);
+            renderEpisodes();
+        }
+    });
+    audio.addEventListener('ended', () => {
+        if (currentEpisode) {
+            markFinished(currentEpisode);
+            renderEpisodes();
+        }
+    });
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+    initPlayer();
+    loadEpisodes();
+});
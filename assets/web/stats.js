@@ -0,0 +1,156 @@
+// 收听统计页面：/web/stats.html，需要管理口令（ADMIN_TOKEN）
+const RANGE_OPTIONS = [7, 30, 90, 365];
+
+let rangeDays = 30;
+
+// 管理口令与播客列表页面共用，保存在浏览器本地
+function getAdminToken() {
+    let token = localStorage.getItem('adminToken');
+    if (!token) {
+        token = window.prompt('请输入管理口令（ADMIN_TOKEN）');
+        if (token) localStorage.setItem('adminToken', token);
+    }
+    return token;
+}
+
+function formatBytes(bytes) {
+    if (!bytes) return '0 B';
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let n = bytes;
+    let i = 0;
+    while (n >= 1024 && i < units.length - 1) {
+        n /= 1024;
+        i += 1;
+    }
+    return `${n.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+// 本地时区的日期 YYYY-MM-DD，与服务器的每日汇总一致
+function formatDate(date) {
+    const pad = n => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function sumCounts(counts) {
+    return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+function createElement(tag, className, text) {
+    const element = document.createElement(tag);
+    if (className) element.className = className;
+    if (text !== undefined) element.textContent = text;
+    return element;
+}
+
+function createTable(headers, rows) {
+    const table = createElement('table', 'preview-table stats-table');
+    const head = table.createTHead().insertRow();
+    headers.forEach(header => head.appendChild(createElement('th', '', header)));
+    const body = table.createTBody();
+    for (const values of rows) {
+        const row = body.insertRow();
+        values.forEach(value => row.appendChild(createElement('td', '', String(value))));
+    }
+    return table;
+}
+
+function renderRange() {
+    const container = document.getElementById('stats-range');
+    container.innerHTML = '';
+    for (const days of RANGE_OPTIONS) {
+        const button = createElement('button', days === rangeDays ? 'podcast-tag active' : 'podcast-tag', `最近 ${days} 天`);
+        button.addEventListener('click', () => {
+            rangeDays = days;
+            renderRange();
+            loadStats();
+        });
+        container.appendChild(button);
+    }
+}
+
+async function loadStats() {
+    const container = document.getElementById('stats');
+    const token = getAdminToken();
+    if (!token) {
+        container.innerHTML = '<div class="error">需要管理口令</div>';
+        return;
+    }
+
+    const today = new Date();
+    const from = formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - rangeDays + 1));
+    container.innerHTML = '<div class="loading">加载中...</div>';
+    try {
+        const response = await fetch(`/stats?from=${from}&to=${formatDate(today)}`, {
+            headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json().catch(() => ({}));
+        if (response.status === 401) {
+            localStorage.removeItem('adminToken');
+            throw new Error('管理口令错误');
+        }
+        if (!response.ok) {
+            throw new Error(data.error === 'Admin API is disabled'
+                ? '管理接口未开启（请设置环境变量 ADMIN_TOKEN）'
+                : (data.error || `请求失败 (${response.status})`));
+        }
+        renderStats(container, data);
+    } catch (error) {
+        container.innerHTML = '';
+        container.appendChild(createElement('div', 'error', error.message));
+    }
+}
+
+function renderStats(container, data) {
+    container.innerHTML = '';
+    const downloads = data.days.reduce((sum, day) => sum + day.downloads, 0);
+    const bytes = data.days.reduce((sum, day) => sum + day.bytes, 0);
+    const feedPolls = data.days.reduce((sum, day) => sum + day.feedPolls, 0);
+    container.appendChild(createElement('div', 'podcast-meta stats-summary',
+        `${data.from} 至 ${data.to} · 下载 ${downloads} 次 · 流量 ${formatBytes(bytes)} · Feed 请求 ${feedPolls} 次`));
+    container.appendChild(renderChart(data.days));
+
+    if (data.podcasts.length === 0) {
+        container.appendChild(createElement('div', 'loading', '这段时间还没有收听记录'));
+        return;
+    }
+    data.podcasts.forEach(podcast => container.appendChild(renderPodcast(podcast)));
+}
+
+// 每日下载数柱状图，鼠标悬停显示当天数据
+function renderChart(days) {
+    const chart = createElement('div', 'stats-chart');
+    const max = Math.max(1, ...days.map(day => day.downloads));
+    for (const day of days) {
+        const bar = createElement('div', 'stats-bar');
+        bar.style.height = `${day.downloads / max * 100}%`;
+        bar.title = `${day.date}：下载 ${day.downloads} 次，流量 ${formatBytes(day.bytes)}，Feed 请求 ${day.feedPolls} 次`;
+        chart.appendChild(bar);
+    }
+    return chart;
+}
+
+// 播客卡片：汇总、各客户端的 feed 请求和各剧集的下载
+function renderPodcast(podcast) {
+    const card = createElement('div', 'podcast-card');
+    card.appendChild(createElement('div', 'podcast-title', podcast.title));
+    card.appendChild(createElement('div', 'podcast-meta',
+        `下载 ${podcast.downloads} 次 · 流量 ${formatBytes(podcast.bytes)} · Feed 请求 ${sumCounts(podcast.feedPolls)} 次`));
+
+    const apps = Object.entries(podcast.feedPolls).sort((a, b) => b[1] - a[1]);
+    if (apps.length > 0) {
+        card.appendChild(createElement('div', 'podcast-meta',
+            `客户端：${apps.map(([app, count]) => `${app} ${count}`).join(' · ')}`));
+    }
+    if (podcast.episodes.length > 0) {
+        card.appendChild(createTable(
+            ['剧集', '下载', '流量'],
+            podcast.episodes.map(episode => [episode.title, episode.downloads, formatBytes(episode.bytes)])
+        ));
+    }
+    return card;
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+    renderRange();
+    loadStats();
+});
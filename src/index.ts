@@ -2,20 +2,27 @@
 import { PodcastServer } from './server';
 import { getEnvConfig } from './utils/env';
 import { watchFolderChanges } from './utils/watcher';
+import { runTokenCommand } from './token';
 
 
 async function main() {
     try {
+        // 子命令：私有订阅令牌管理
+        if (process.argv[2] === 'token') {
+            await runTokenCommand(process.argv.slice(3));
+            return;
+        }
+
         // 获取环境变量配置
         const config = getEnvConfig();
 
         // 输出当前配置信息
         console.log('当前配置：', {
-            AUDIO_DIR: config.AUDIO_DIR,
+            AUDIO_ROOTS: config.AUDIO_ROOTS.map(root => `${root.name}=${root.path}`),
             PORT: config.PORT
         });
 
-        const server = new PodcastServer(config.AUDIO_DIR, config.PORT);
+        const server = new PodcastServer(config.AUDIO_ROOTS, config.PORT);
 
         // 优雅关闭服务器
         process.on('SIGINT', async () => {
@@ -1,35 +1,103 @@
-import fastify, { FastifyInstance } from 'fastify';
+import fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import fastifyStatic from '@fastify/static';
 import path from 'path';
-import { ProcessOptions, PodcastSource } from './types';
-import { processPodcastSource } from './utils/scanner';
-import { generateFeed, getFeedStoragePath } from './utils/feed';
-import { getEnvConfig } from './utils/env';
+import { Episode, FeedFormat, ProcessOptions, PodcastConfig, PodcastSource } from './types';
+import { processPodcastSource, scanAudioFiles } from './utils/scanner';
+import { FEED_EXTENSIONS, FEED_FORMATS, generateFeeds, getFeedLastModified, getFeedPageCount, getFeedStoragePath, getEpisodeNumbers, getEpisodeRelativePath } from './utils/feed';
+import { LibraryRoot, getEnvConfig } from './utils/env';
 import fs from 'fs-extra';
 import { resolveCoverForSource } from './utils/cover';
+import { getReleasedEpisodes, getNextReleaseDate } from './utils/schedule';
+import { toChaptersJson } from './utils/chapters';
+import { TRANSCRIPT_TYPES, readTranscriptSegments, toTranscriptJson } from './utils/transcript';
+import { AccessToken, addTokenToFeed, addTokenToUrl, canAccessPodcast, findActiveToken, getProtectedPodcast, isAdminAuthorized } from './utils/auth';
+import { getConfigOverridePath, getConfigWithDefaults, readConfig, validateConfigStrict, writeConfig } from './utils/config';
+import { buildVirtualSource, getNextVirtualFeedExpiry, loadVirtualFeeds, VIRTUAL_FEEDS_FILE } from './utils/virtual';
+import { buildOpml, parseTagFilter } from './utils/opml';
+import { CACHE_CONTROL, compressPayload, createEntityTag, isNotModified, privateCacheControl } from './utils/http';
+import { Diagnostic, collectDiagnostics, reportWarning } from './utils/diagnostics';
+import { listEpisodes } from './utils/listing';
+import { SourceIndex, buildSearchIndex, search } from './utils/search';
+import { flushStats, formatStatsDate, getClientApp, getListenerId, getMinDownloadBytes, getStatsReport, isBot, recordAudioRequest, recordFeedPoll } from './utils/stats';
+import { DEVICE_TYPES, EpisodeAction, EpisodeProgress, authenticateSyncUser, checkEpisodeActions, createSession, getEpisodeActions, getEpisodeProgress, getSubscriptionChanges, listDevices, listSyncUsers, removeSession, updateDevice, uploadEpisodeActions, uploadSubscriptionChanges } from './utils/sync';
 
 // 设置默认封面路径为assets中的图片
 const DEFAULT_COVER = '/image/default-cover.png';
 
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: 'application/xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8'
+};
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif']);
+
+// 收听统计每分钟写一次磁盘；查询默认最近 30 天，最多一年
+const STATS_FLUSH_INTERVAL_MS = 60 * 1000;
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_DAYS = 366;
+
+// 搜索结果数量
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// 内存中的 feed 内容及其缓存校验信息
+interface CachedFeed {
+    body: string;
+    etag: string;
+    lastModified: Date;
+}
+
+// 播客源（或虚拟 feed）最近一次处理的结果
+interface SourceDiagnostics {
+    status: 'ok' | 'warning' | 'error';
+    checkedAt: Date;
+    lastSuccessAt?: Date;
+    staleFeed: boolean;  // 处理失败，仍在提供上次成功生成的 feed
+    issues: Diagnostic[];
+}
+
+// setTimeout 的最大延迟约 24.8 天，更远的解锁时间分段等待
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 export class PodcastServer {
     private server: FastifyInstance;
-    private audioDir: string;
+    private roots: LibraryRoot[];
     private sources: Map<string, PodcastSource> = new Map();
+    // 虚拟 feed（feeds.json 中定义），以 id 为键
+    private virtualSources: Map<string, PodcastSource> = new Map();
+    // 已生成的 feed，以 <dir>.<扩展名> 为键
+    private feedCache: Map<string, CachedFeed> = new Map();
+    // 各播客源 / 虚拟 feed 的诊断信息，以目录名或 id 为键
+    private diagnostics: Map<string, SourceDiagnostics> = new Map();
+    // 各播客的搜索索引，以目录名为键（虚拟 feed 的剧集已包含在所属播客中）
+    private searchIndexes: Map<string, SourceIndex> = new Map();
     private baseUrl: string;
     private port: number;
+    private releaseTimer?: NodeJS.Timeout;
+    private virtualFeedTimer?: NodeJS.Timeout;
+    private statsTimer?: NodeJS.Timeout;
+    private processingQueue: Promise<void> = Promise.resolve();
+    private authEnabled: boolean;
+    private adminToken: string;
 
-    constructor(audioDir: string, port: number) {
-        this.audioDir = path.resolve(audioDir);
+    constructor(roots: LibraryRoot[], port: number) {
+        this.roots = roots.map(root => ({ ...root, path: path.resolve(root.path) }));
         this.port = port;
         const config = getEnvConfig();
         this.baseUrl = config.BASE_URL;
+        this.authEnabled = config.AUTH_ENABLED;
+        this.adminToken = config.ADMIN_TOKEN;
         this.server = fastify({
-            logger: true
+            logger: true,
+            // 只有配置了 TRUST_PROXY 时 request.ip 才取自 X-Forwarded-For，避免客户端伪造
+            trustProxy: config.TRUST_PROXY
         });
     }
 
     private formatPodcastInfo(source: PodcastSource): string {
-        const episodeCount = source.episodes.length;
+        const episodeCount = getReleasedEpisodes(source).length;
+        const pendingCount = source.episodes.length - episodeCount;
         const coverInfo = source.coverPath || source.coverUrl ? '✓' : '✗';
 
         return `
@@ -38,9 +106,11 @@ export class PodcastServer {
   ├── 作者: ${source.config.author}
   ├── 语言: ${source.config.language}
   ├── 封面: ${coverInfo}
-  ├── 剧集数: ${episodeCount}
-  ├── 文件夹名: ${source.dirName}
-  └── RSS地址: ${this.baseUrl}/feeds/${encodeURIComponent(source.dirName)}.xml`;
+  ├── 剧集数: ${episodeCount}${pendingCount > 0 ? ` (待解锁: ${pendingCount})` : ''}
+  ├── 文件夹名: ${source.dirName}${this.roots.length > 1 ? ` (${source.root})` : ''}
+  └── RSS地址: ${this.authEnabled
+            ? `${this.baseUrl}/feeds/<令牌>/${encodeURIComponent(source.dirName)}.xml`
+            : `${this.baseUrl}/feeds/${encodeURIComponent(source.dirName)}.xml`}`;
     }
 
     private displayPodcastList(): void {
@@ -57,49 +127,411 @@ export class PodcastServer {
             console.log('='.repeat(50));
         }
 
+        for (const source of this.virtualSources.values()) {
+            console.log(`  [虚拟] ${source.config.title}（${source.episodes.length} 集）: ${this.baseUrl}/feeds/${encodeURIComponent(source.dirName)}.xml`);
+        }
+
+        for (const [dirName, diagnostics] of this.diagnostics) {
+            if (diagnostics.status === 'error') {
+                console.log(`  [出错] ${dirName}: ${diagnostics.issues.find(issue => issue.level === 'error')?.message}`
+                    + (diagnostics.staleFeed ? '（继续提供上次生成的 feed）' : ''));
+            }
+        }
+
         console.log(`\n总共发现 ${this.sources.size} 个播客源`);
         console.log(`服务器地址: ${this.baseUrl}`);
         console.log('播客列表API: /podcasts\n');
     }
 
+    // 扫描单个播客目录并解析封面
+    private async buildSource(dir: string, root: LibraryRoot): Promise<PodcastSource> {
+        const source = await processPodcastSource(
+            path.join(root.path, dir)
+        );
+        source.root = root.name;
+
+        // Resolve cover (local cover.jpg or remote cached cover under .covers)
+        if (source.coverPath) {
+            source.coverUrl = `/audio/${encodeURIComponent(source.dirName)}/cover.jpg`;
+        } else {
+            const resolved = await resolveCoverForSource(source);
+            if (resolved.coverUrl) {
+                source.coverUrl = resolved.coverUrl;
+            }
+        }
+
+        return source;
+    }
+
     private async processSources(): Promise<void> {
-        // 清空现有源
-        this.sources.clear();
+        // 在新的 Map 中构建，完成后整体替换，HTTP 接口不会看到处理到一半的列表
+        const sources = new Map<string, PodcastSource>();
 
-        // 扫描并处理所有播客源
+        // 扫描并处理所有播客源，每个目录单独处理，一个目录出错不影响其他目录
         const dirs = await this.scanPodcastDirs();
-        for (const dir of dirs) {
-            const source = await processPodcastSource(
-                path.join(this.audioDir, dir)
-            );
+        for (const [dir, root] of dirs) {
+            const source = await this.refreshSource(dir, root);
+            if (source) {
+                sources.set(dir, source);
+            }
+        }
 
-            // Resolve cover (local cover.jpg or remote cached cover under .covers)
-            if (source.coverPath) {
-                source.coverUrl = `/audio/${encodeURIComponent(source.dirName)}/cover.jpg`;
-            } else {
-                const resolved = await resolveCoverForSource(source);
-                if (resolved.coverUrl) {
-                    source.coverUrl = resolved.coverUrl;
-                }
+        // 已删除的目录不再提供 feed（包括首次处理就失败、只有恢复的 feed 的目录）
+        const removed = [...this.sources.keys(), ...this.diagnostics.keys()]
+            .filter(dir => !dirs.has(dir) && !this.virtualSources.has(dir) && dir !== VIRTUAL_FEEDS_FILE);
+        for (const dir of new Set(removed)) {
+            await this.removeFeeds({ dirName: dir });
+            this.diagnostics.delete(dir);
+            this.searchIndexes.delete(dir);
+        }
+
+        this.sources = sources;
+        await this.writeVirtualFeeds();
+
+        // 显示更新后的播客列表
+        this.displayPodcastList();
+
+        // 安排下一集的解锁
+        this.scheduleNextRelease();
+    }
+
+    // 只重新扫描一个播客目录；目录已不存在时移除该源及其 feed
+    // 根目录中的 feeds.json 变化时 dir 为 feeds.json，只重新生成虚拟 feed
+    private async processSource(dir: string): Promise<void> {
+        const root = await this.findPodcastRoot(dir);
+        const sources = new Map(this.sources);
+
+        if (root) {
+            const source = await this.refreshSource(dir, root);
+            if (source) {
+                sources.set(dir, source);
+            }
+            this.server.log.info(`Reprocessed podcast source: ${dir}`);
+        } else {
+            const removed = sources.get(dir);
+            // 首次处理就失败的目录没有播客源，但可能有从磁盘恢复的 feed
+            if (removed || (this.diagnostics.has(dir) && dir !== VIRTUAL_FEEDS_FILE)) {
+                sources.delete(dir);
+                this.diagnostics.delete(dir);
+                this.searchIndexes.delete(dir);
+                await this.removeFeeds(removed ?? { dirName: dir });
+                this.server.log.info(`Removed podcast source: ${dir}`);
             }
+        }
+
+        this.sources = sources;
+        // 虚拟 feed 依赖所有播客，任何播客变化后都重新生成
+        await this.writeVirtualFeeds();
+        this.scheduleNextRelease();
+    }
 
-            this.sources.set(dir, source);
+    /**
+     * 扫描单个播客目录并生成 feed，出错时不影响其他目录：记录诊断信息，继续提供上次成功生成的 feed
+     * 返回应保留的播客源，失败时为上次成功的结果（没有时为 undefined）
+     */
+    private async refreshSource(dir: string, root: LibraryRoot): Promise<PodcastSource | undefined> {
+        const { result, failed, issues } = await collectDiagnostics(async () => {
+            const source = await this.buildSource(dir, root);
+            await this.writeFeed(source);
+            this.searchIndexes.set(dir, await buildSearchIndex(source));
+            return source;
+        });
+        if (failed) {
+            this.server.log.error(`Failed to process podcast source ${dir}: ${issues[issues.length - 1].message}`);
+            if (!this.feedCache.has(`${dir}.${FEED_EXTENSIONS.rss}`)) {
+                await this.restoreSavedFeeds(dir);
+            }
+        }
+        this.recordDiagnostics(dir, failed, issues);
+        return result ?? this.sources.get(dir);
+    }
+
+    // 重启后首次处理就失败时，从 .feeds 恢复上次成功生成的 feed
+    private async restoreSavedFeeds(dir: string): Promise<void> {
+        for (const format of FEED_FORMATS) {
+            const feedPath = getFeedStoragePath({ dirName: dir }, format);
+            try {
+                const [body, stats] = await Promise.all([fs.readFile(feedPath, 'utf-8'), fs.stat(feedPath)]);
+                this.cacheFeed(`${dir}.${FEED_EXTENSIONS[format]}`, body, stats.mtime);
+            } catch {
+                // 没有保存过的 feed
+            }
+        }
+    }
+
+    private recordDiagnostics(id: string, failed: boolean, issues: Diagnostic[]): void {
+        const now = new Date();
+        this.diagnostics.set(id, {
+            status: failed ? 'error' : issues.length > 0 ? 'warning' : 'ok',
+            checkedAt: now,
+            lastSuccessAt: failed ? this.diagnostics.get(id)?.lastSuccessAt : now,
+            staleFeed: failed && this.feedCache.has(`${id}.${FEED_EXTENSIONS.rss}`),
+            issues: issues.map(issue => ({
+                ...issue,
+                message: this.hideLibraryRoots(issue.message),
+                file: issue.file && this.hideLibraryRoots(issue.file)
+            }))
+        });
+    }
+
+    // 诊断信息中的路径改为相对媒体库根目录，不暴露服务器上的绝对路径
+    private hideLibraryRoots(text: string): string {
+        return this.roots.reduce((result, root) => result.split(`${root.path}${path.sep}`).join(''), text);
+    }
 
-            // 生成并保存feed文件到新的存储位置
-            const feed = await generateFeed(source, {
-                baseUrl: this.baseUrl,
-                defaultCover: `${this.baseUrl}${DEFAULT_COVER}`
+    // 读取 feeds.json 并生成全部虚拟 feed，删除已不再定义的虚拟 feed 文件
+    private async writeVirtualFeeds(): Promise<void> {
+        // feeds.json 本身的问题（格式错误、无效定义、与目录重名）记在 feeds.json 名下
+        const loaded = await collectDiagnostics(async () => {
+            const definitions = await loadVirtualFeeds(this.roots);
+            return definitions.filter(definition => {
+                if (!this.sources.has(definition.id)) return true;
+                reportWarning(`Virtual feed "${definition.id}" conflicts with a podcast folder of the same name, skipped`);
+                return false;
             });
-            const feedPath = getFeedStoragePath(source);
-            await this.saveFeed(feedPath, feed);
+        });
+        if (loaded.failed || loaded.issues.length > 0) {
+            this.recordDiagnostics(VIRTUAL_FEEDS_FILE, loaded.failed, loaded.issues);
+        } else {
+            this.diagnostics.delete(VIRTUAL_FEEDS_FILE);
         }
 
-        // 显示更新后的播客列表
-        this.displayPodcastList();
+        const virtualSources = new Map<string, PodcastSource>();
+        for (const definition of loaded.result ?? []) {
+            const { result, failed, issues } = await collectDiagnostics(async () => {
+                const source = buildVirtualSource(definition, this.sources.values());
+                await this.writeFeed(source);
+                return source;
+            });
+            if (failed) {
+                this.server.log.error(`Failed to generate virtual feed ${definition.id}: ${issues[issues.length - 1].message}`);
+            }
+            this.recordDiagnostics(definition.id, failed, issues);
+            const source = result ?? this.virtualSources.get(definition.id);
+            if (source) {
+                virtualSources.set(definition.id, source);
+            }
+        }
+
+        for (const [id, previous] of this.virtualSources) {
+            if (!virtualSources.has(id) && !this.sources.has(id)) {
+                await this.removeFeeds(previous);
+                this.diagnostics.delete(id);
+            }
+        }
+
+        this.virtualSources = virtualSources;
+        this.scheduleVirtualFeedRefresh();
+    }
+
+    // 「最近 N 天」的虚拟 feed 在最早一集移出时间窗口时重新生成
+    private scheduleVirtualFeedRefresh(): void {
+        if (this.virtualFeedTimer) {
+            clearTimeout(this.virtualFeedTimer);
+            this.virtualFeedTimer = undefined;
+        }
+
+        const next = getNextVirtualFeedExpiry(this.virtualSources.values());
+        if (!next) return;
+
+        const delay = Math.min(Math.max(0, next.getTime() - Date.now()), MAX_TIMER_DELAY_MS);
+        this.virtualFeedTimer = setTimeout(async () => {
+            this.virtualFeedTimer = undefined;
+            try {
+                await this.enqueue(() => this.writeVirtualFeeds());
+            } catch (error) {
+                this.server.log.error('Error regenerating virtual feeds:', error);
+            }
+        }, delay);
+        this.virtualFeedTimer.unref();
+    }
+
+    // 串行执行扫描任务，避免并发的全量/增量扫描互相覆盖
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const run = this.processingQueue.then(task);
+        this.processingQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    // 同时生成 RSS、Atom 和 JSON Feed
+    private async writeFeed(source: PodcastSource): Promise<void> {
+        const feeds = await this.renderFeeds(source);
+        const lastModified = getFeedLastModified(source);
+        // 分页内容随主 feed 一起变化，访问时重新生成
+        this.removeFeedPages(source);
+        for (const format of FEED_FORMATS) {
+            await this.saveFeed(getFeedStoragePath(source, format), feeds[format]);
+            this.cacheFeed(`${source.dirName}.${FEED_EXTENSIONS[format]}`, feeds[format], lastModified);
+        }
+    }
+
+    private async removeFeeds(source: Pick<PodcastSource, 'dirName'>): Promise<void> {
+        this.removeFeedPages(source);
+        for (const format of FEED_FORMATS) {
+            this.feedCache.delete(`${source.dirName}.${FEED_EXTENSIONS[format]}`);
+            await fs.remove(getFeedStoragePath(source, format));
+        }
+    }
+
+    private renderFeeds(source: PodcastSource, page: number = 1): Promise<Record<FeedFormat, string>> {
+        return generateFeeds(source, {
+            baseUrl: this.baseUrl,
+            defaultCover: `${this.baseUrl}${DEFAULT_COVER}`
+        }, page);
+    }
+
+    private cacheFeed(key: string, body: string, lastModified: Date): void {
+        this.feedCache.set(key, { body, etag: createEntityTag(body), lastModified });
+    }
+
+    private removeFeedPages(source: Pick<PodcastSource, 'dirName'>): void {
+        const prefixes = FEED_FORMATS.map(format => `${source.dirName}.${FEED_EXTENSIONS[format]}?page=`);
+        for (const key of this.feedCache.keys()) {
+            if (prefixes.some(prefix => key.startsWith(prefix))) {
+                this.feedCache.delete(key);
+            }
+        }
+    }
+
+    // 分页 feed 只在被请求时生成，之后缓存到主 feed 下次重新生成为止；页码超出范围时返回 undefined
+    private async getFeedPage(fileName: string, page: number): Promise<CachedFeed | undefined> {
+        const key = `${fileName}?page=${page}`;
+        if (!this.feedCache.has(key)) {
+            await this.enqueue(async () => {
+                const dirName = fileName.replace(/\.[^.]+$/, '');
+                const source = this.sources.get(dirName) ?? this.virtualSources.get(dirName);
+                const main = this.feedCache.get(fileName);
+                if (!source || !main || this.feedCache.has(key) || page > getFeedPageCount(source)) return;
+                const feeds = await this.renderFeeds(source, page);
+                for (const format of FEED_FORMATS) {
+                    this.cacheFeed(`${dirName}.${FEED_EXTENSIONS[format]}?page=${page}`, feeds[format], main.lastModified);
+                }
+            });
+        }
+        return this.feedCache.get(key);
+    }
+
+    // 返回 feed（?page= 为 RFC 5005 分页），客户端带着 If-None-Match / If-Modified-Since 轮询且内容未变时回复 304
+    private async sendFeed(request: FastifyRequest, reply: FastifyReply, fileName: string, token?: AccessToken): Promise<FastifyReply> {
+        const format = this.getFeedFormat(fileName);
+        const pageParam = (request.query as { page?: string }).page;
+        const page = pageParam === undefined ? 1 : /^\d+$/.test(pageParam) ? Number(pageParam) : 0;
+        const cached = !format || page < 1 ? undefined
+            : page === 1 ? this.feedCache.get(fileName)
+                : await this.getFeedPage(fileName, page);
+        if (!format || !cached) {
+            return reply.code(404).send({ error: 'Feed not found' });
+        }
+
+        // 带令牌的 feed 内容随令牌变化，ETag 也要区分
+        const etag = token ? createEntityTag(`${cached.etag}:${token.token}`) : cached.etag;
+        reply
+            .header('ETag', etag)
+            .header('Last-Modified', cached.lastModified.toUTCString())
+            .header('Cache-Control', token ? privateCacheControl(CACHE_CONTROL.feed) : CACHE_CONTROL.feed)
+            .header('Vary', 'Accept-Encoding');
+        if (isNotModified(request, etag, cached.lastModified)) {
+            return reply.code(304).send();
+        }
+        return reply
+            .type(FEED_CONTENT_TYPES[format])
+            .send(token ? addTokenToFeed(cached.body, this.baseUrl, token.token) : cached.body);
+    }
+
+    // 在下一集解锁时重新生成 feed，不依赖文件系统事件
+    private scheduleNextRelease(): void {
+        if (this.releaseTimer) {
+            clearTimeout(this.releaseTimer);
+            this.releaseTimer = undefined;
+        }
+
+        const next = getNextReleaseDate(this.sources.values());
+        if (!next) return;
+
+        const delay = Math.min(Math.max(0, next.getTime() - Date.now()), MAX_TIMER_DELAY_MS);
+        this.releaseTimer = setTimeout(async () => {
+            this.releaseTimer = undefined;
+            try {
+                await this.enqueue(async () => {
+                    const now = new Date();
+                    let released = false;
+                    for (const source of this.sources.values()) {
+                        // 只重写有剧集刚解锁的 feed
+                        const unlocked = source.episodes.some(e => e.releaseDate && e.releaseDate <= now && e.releaseDate >= next);
+                        if (unlocked) {
+                            this.server.log.info(`Releasing scheduled episodes for ${source.dirName}`);
+                            await this.writeFeed(source);
+                            released = true;
+                        }
+                    }
+                    if (released) {
+                        await this.writeVirtualFeeds();
+                    }
+                });
+            } catch (error) {
+                this.server.log.error('Error regenerating feeds for scheduled release:', error);
+            }
+            this.scheduleNextRelease();
+        }, delay);
+        this.releaseTimer.unref();
+    }
+
+    // 私有订阅：受保护的资源需要 ?token=，且令牌有权访问对应的播客
+    // 管理接口（/admin）和收听统计（/stats）只接受 ADMIN_TOKEN，与订阅令牌无关
+    private async authorize(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        const urlPath = request.url.split('?')[0];
+        if (urlPath.startsWith('/admin/') || urlPath === '/stats') {
+            if (!this.adminToken) {
+                return reply.code(404).send({ error: 'Admin API is disabled' });
+            }
+            if (!isAdminAuthorized(request.headers.authorization, this.adminToken)) {
+                return reply.code(401).send({ error: 'Admin token required' });
+            }
+            return;
+        }
+
+        if (!this.authEnabled) return;
+
+        // 只允许带令牌的 feed 地址（/feeds/<token>/<dir>.xml），令牌在路由中校验
+        if (urlPath.startsWith('/feeds/')) {
+            if (!/^\/feeds\/[^/]+\/[^/]+$/.test(urlPath)) {
+                return reply.code(401).send({ error: 'Access token required' });
+            }
+            return;
+        }
+
+        const dirName = getProtectedPodcast(urlPath);
+        if (dirName === null && !['/podcasts', '/opml', '/search'].includes(urlPath)) return;
+
+        const value = (request.query as { token?: string }).token;
+        if (!value) {
+            return reply.code(401).send({ error: 'Access token required' });
+        }
+        const token = await findActiveToken(value);
+        if (!token || (dirName !== null && !canAccessPodcast(token, dirName))) {
+            return reply.code(403).send({ error: 'Invalid or revoked access token' });
+        }
     }
 
     public async initialize(): Promise<void> {
         try {
+            // 访问控制需在所有路由（包括静态文件服务）之前注册
+            this.server.addHook('onRequest', (request, reply) => this.authorize(request, reply));
+            // feed、API 和网页资源按 Accept-Encoding 压缩
+            this.server.addHook('onSend', compressPayload);
+            // 响应完成后记录收听统计
+            this.server.addHook('onResponse', async (request, reply) => {
+                try {
+                    await this.recordStats(request, reply);
+                } catch (error) {
+                    this.server.log.warn(`Failed to record listening stats: ${error}`);
+                }
+            });
+            this.statsTimer = setInterval(() => {
+                flushStats().catch(error => this.server.log.warn(`Failed to save listening stats: ${error}`));
+            }, STATS_FLUSH_INTERVAL_MS);
+            this.statsTimer.unref();
+
             // 注册静态文件服务中间件 - 处理静态资源
             await this.server.register(fastifyStatic, {
                 root: path.join(__dirname, '../assets'),
@@ -107,50 +539,366 @@ export class PodcastServer {
                 decorateReply: false
             });
 
-            // 注册feed文件的静态服务
-            const feedsDir = path.join(process.cwd(), '.feeds');
-            await fs.ensureDir(feedsDir);
-            await this.server.register(fastifyStatic, {
-                root: feedsDir,
-                prefix: '/feeds/',
-                decorateReply: false
-            });
-
             // Remote cover cache dir (served as static files)
             const coversDir = path.join(process.cwd(), '.covers');
             await fs.ensureDir(coversDir);
             await this.server.register(fastifyStatic, {
                 root: coversDir,
                 prefix: '/covers/',
-                decorateReply: false
+                decorateReply: false,
+                setHeaders: (res) => {
+                    res.setHeader('Cache-Control', this.authEnabled
+                        ? privateCacheControl(CACHE_CONTROL.cover)
+                        : CACHE_CONTROL.cover);
+                }
             });
 
-            // 注册音频文件的静态服务
+            // 注册音频文件的静态服务，多个根目录时依次查找（播客目录名在各根目录间唯一）
             await this.server.register(fastifyStatic, {
-                root: this.audioDir,
+                root: this.roots.map(root => root.path),
                 prefix: '/audio/',
-                decorateReply: false
+                decorateReply: false,
+                // 字幕/转录文件明确使用 UTF-8，避免客户端按其他编码解读中文
+                setHeaders: (res, filePath) => {
+                    const type = TRANSCRIPT_TYPES[path.extname(filePath).slice(1).toLowerCase()];
+                    if (type && type !== 'application/json') {
+                        res.setHeader('Content-Type', `${type}; charset=utf-8`);
+                    }
+                    // 目录中的封面图片与音频文件分别使用各自的缓存策略
+                    const cacheControl = IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+                        ? CACHE_CONTROL.cover
+                        : CACHE_CONTROL.audio;
+                    res.setHeader('Cache-Control', this.authEnabled ? privateCacheControl(cacheControl) : cacheControl);
+                }
             });
 
             // 处理所有播客源
             await this.processSources();
 
-            // API路由: 获取所有播客列表
-            this.server.get('/podcasts', async () => {
-                const podcasts = Array.from(this.sources.values()).map(source => ({
-                    title: source.config.title,
-                    description: source.config.description,
-                    dirName: source.dirName,
-                    coverUrl: source.coverUrl || DEFAULT_COVER,
-                    feedUrl: `/feeds/${encodeURIComponent(source.dirName)}.xml`,
-                    episodeCount: source.episodes.length,
-                    latestEpisodeDate: source.episodes.length > 0
-                        ? source.episodes[source.episodes.length - 1].pubDate
-                        : null
-                }));
-                return { podcasts };
+            // API路由: 获取所有播客列表（私有订阅时只返回令牌可访问的播客，地址均带令牌）
+            this.server.get<{ Querystring: { token?: string } }>('/podcasts', async (request, reply) => {
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                const token = this.authEnabled ? await findActiveToken(request.query.token) : undefined;
+                const podcasts = [...this.sources.values(), ...this.virtualSources.values()]
+                    .filter(source => !token || canAccessPodcast(token, source.dirName))
+                    .map(source => {
+                        // 配置了发布排期时只统计已解锁的剧集
+                        const released = getReleasedEpisodes(source);
+                        return {
+                            title: source.config.title,
+                            description: source.config.description,
+                            dirName: source.dirName,
+                            coverUrl: this.getCoverPath(source, token),
+                            feedUrl: this.getFeedPath(source.dirName, token),
+                            atomUrl: this.getFeedPath(source.dirName, token, 'atom'),
+                            jsonUrl: this.getFeedPath(source.dirName, token, 'json'),
+                            episodeCount: released.length,
+                            latestEpisodeDate: released.length > 0
+                                ? released[released.length - 1].pubDate
+                                : null,
+                            root: source.root,
+                            tags: source.config.tags,
+                            virtual: Boolean(source.virtual),
+                            ...this.getDiagnosticsSummary(source.dirName)
+                        };
+                    });
+
+                // 首次处理就失败的目录也列出来，网页上可以看到错误；有恢复的 feed 时仍可订阅
+                const broken = [...this.diagnostics.keys()]
+                    .filter(dirName => !this.sources.has(dirName) && !this.virtualSources.has(dirName))
+                    .filter(dirName => !token || canAccessPodcast(token, dirName))
+                    .map(dirName => {
+                        const hasFeed = this.feedCache.has(`${dirName}.${FEED_EXTENSIONS.rss}`);
+                        return {
+                            title: dirName,
+                            description: '',
+                            dirName,
+                            coverUrl: DEFAULT_COVER,
+                            feedUrl: hasFeed ? this.getFeedPath(dirName, token) : null,
+                            atomUrl: hasFeed ? this.getFeedPath(dirName, token, 'atom') : null,
+                            jsonUrl: hasFeed ? this.getFeedPath(dirName, token, 'json') : null,
+                            episodeCount: 0,
+                            latestEpisodeDate: null,
+                            tags: [],
+                            virtual: false,
+                            ...this.getDiagnosticsSummary(dirName)
+                        };
+                    });
+                return { podcasts: [...podcasts, ...broken] };
+            });
+
+            // 剧集列表（网页播放器使用）：标题、集号、日期、时长、大小和同名附件
+            this.server.get<{ Params: { dirName: string }; Querystring: { token?: string } }>('/podcasts/:dirName', async (request, reply) => {
+                const { dirName } = request.params;
+                const source = this.sources.get(dirName) ?? this.virtualSources.get(dirName);
+                if (!source) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                const token = this.authEnabled ? await findActiveToken(request.query.token) : undefined;
+                const withToken = (url: string) => token ? addTokenToUrl(url, token.token) : url;
+                const episodes = await listEpisodes(source);
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return {
+                    podcast: {
+                        title: source.config.title,
+                        description: source.config.description,
+                        author: source.config.author,
+                        dirName,
+                        coverUrl: this.getCoverPath(source, token),
+                        feedUrl: this.getFeedPath(dirName, token),
+                        virtual: Boolean(source.virtual)
+                    },
+                    episodes: episodes.map(episode => ({
+                        ...episode,
+                        url: withToken(episode.url),
+                        attachments: episode.attachments.map(attachment => ({
+                            ...attachment,
+                            url: withToken(attachment.url)
+                        }))
+                    }))
+                };
+            });
+
+            // 播放进度（gpodder 同步上传的数据），网页播放器据此继续播放；同步用户即令牌名称
+            this.server.get<{ Params: { dirName: string }; Querystring: { token?: string } }>('/podcasts/:dirName/progress', async (request, reply) => {
+                const { dirName } = request.params;
+                const source = this.sources.get(dirName) ?? this.virtualSources.get(dirName);
+                if (!source) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                const token = await findActiveToken(request.query.token);
+                if (!token) {
+                    return reply.code(401).send({ error: 'Access token required' });
+                }
+                const progress = await getEpisodeProgress(token.name, await listEpisodes(source));
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return { user: token.name, progress: Object.fromEntries(progress) };
+            });
+
+            // 诊断信息：最近一次处理的状态、警告和错误（出错时继续提供上次成功生成的 feed）
+            this.server.get<{ Params: { dirName: string } }>('/podcasts/:dirName/diagnostics', async (request, reply) => {
+                const { dirName } = request.params;
+                const diagnostics = this.diagnostics.get(dirName);
+                if (!diagnostics) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return { dirName, ...diagnostics };
+            });
+
+            // OPML 订阅列表：?tag= 只导出带有这些标签的播客，私有订阅时只导出令牌可访问的播客
+            this.server.get<{ Querystring: { token?: string; tag?: string | string[] } }>('/opml', async (request, reply) => {
+                const token = this.authEnabled ? await findActiveToken(request.query.token) : undefined;
+                const tags = parseTagFilter(request.query.tag);
+                const outlines = Array.from(this.sources.values())
+                    .filter(source => !token || canAccessPodcast(token, source.dirName))
+                    .filter(source => tags.length === 0 || tags.some(tag => source.config.tags.includes(tag)))
+                    .map(source => ({
+                        title: source.config.title,
+                        description: source.config.description,
+                        xmlUrl: `${this.baseUrl}${this.getFeedPath(source.dirName, token)}`,
+                        htmlUrl: source.config.websiteUrl || undefined
+                    }));
+                const title = tags.length > 0 ? `Folder2Cast (${tags.join(', ')})` : 'Folder2Cast';
+                const fileName = tags.length > 0 ? `folder2podcast-${tags.join('-')}.opml` : 'folder2podcast.opml';
+                return reply
+                    .type('text/x-opml; charset=utf-8')
+                    .header('Cache-Control', CACHE_CONTROL.api)
+                    .header('Content-Disposition', `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`)
+                    .send(buildOpml(title, outlines));
+            });
+
+            // 搜索播客、剧集标题和同名笔记、转录，支持中文和拼音；私有订阅时只搜索令牌可访问的播客
+            this.server.get<{ Querystring: { q?: string; limit?: string; token?: string } }>('/search', async (request, reply) => {
+                const query = (request.query.q || '').trim();
+                if (!query) {
+                    return reply.code(400).send({ error: 'Search query required (?q=)' });
+                }
+                const limit = request.query.limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(request.query.limit);
+                if (!Number.isInteger(limit) || limit < 1) {
+                    return reply.code(400).send({ error: 'Invalid limit' });
+                }
+                const token = this.authEnabled ? await findActiveToken(request.query.token) : undefined;
+                const indexes = [...this.searchIndexes.values()]
+                    .filter(index => !token || canAccessPodcast(token, index.dirName));
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return { query, results: search(indexes, query, Math.min(limit, MAX_SEARCH_LIMIT)) };
+            });
+
+            // 公开订阅的 feed：/feeds/<dir>.xml（.atom / .json）
+            this.server.get<{ Params: { fileName: string }; Querystring: { page?: string } }>('/feeds/:fileName', async (request, reply) => {
+                return this.sendFeed(request, reply, request.params.fileName);
+            });
+
+            // 私有订阅的 feed：/feeds/<token>/<dir>.xml（.atom / .json），其中的音频、封面等地址都带上令牌
+            this.server.get<{ Params: { token: string; fileName: string }; Querystring: { page?: string } }>('/feeds/:token/:fileName', async (request, reply) => {
+                const { fileName } = request.params;
+                if (!this.authEnabled || !this.feedCache.has(fileName)) {
+                    return reply.code(404).send({ error: 'Feed not found' });
+                }
+                const token = await findActiveToken(request.params.token);
+                const dirName = fileName.replace(/\.[^.]+$/, '');
+                if (!token || !canAccessPodcast(token, dirName)) {
+                    return reply.code(403).send({ error: 'Invalid or revoked access token' });
+                }
+                return this.sendFeed(request, reply, fileName, token);
+            });
+
+            // API路由: Podcasting 2.0 章节 JSON（podcast:chapters 引用）
+            this.server.get<{ Params: { dirName: string; '*': string } }>('/chapters/:dirName/*', async (request, reply) => {
+                const source = this.sources.get(request.params.dirName);
+                const relativePath = request.params['*'].replace(/\.json$/, '');
+                const episode = source && getReleasedEpisodes(source).find(e =>
+                    !e.chapter && e.chapters?.length && getEpisodeRelativePath(source, e.filePath) === relativePath
+                );
+                if (!episode || !episode.chapters) {
+                    return reply.code(404).send({ error: 'Chapters not found' });
+                }
+                return reply
+                    .type('application/json+chapters; charset=utf-8')
+                    .send(toChaptersJson(episode.chapters));
+            });
+
+            // API路由: JSON 转录（Whisper 等格式）转换为 Podcasting 2.0 格式（podcast:transcript 引用）
+            this.server.get<{ Params: { dirName: string; '*': string } }>('/transcripts/:dirName/*', async (request, reply) => {
+                const source = this.sources.get(request.params.dirName);
+                const filePath = source && path.resolve(source.dirPath, request.params['*']);
+                if (!source || !filePath || !filePath.startsWith(source.dirPath + path.sep) || path.extname(filePath).toLowerCase() !== '.json') {
+                    return reply.code(404).send({ error: 'Transcript not found' });
+                }
+                const segments = await readTranscriptSegments(filePath);
+                if (!segments) {
+                    return reply.code(404).send({ error: 'Transcript not found' });
+                }
+                return reply
+                    .type('application/json; charset=utf-8')
+                    .send(toTranscriptJson(segments));
+            });
+
+            // 管理接口：读取、校验（含编号和标题预览）和保存 podcast.json
+            this.server.get<{ Params: { dirName: string } }>('/admin/podcasts/:dirName/config', async (request, reply) => {
+                const dirPath = await this.getPodcastDirPath(request.params.dirName);
+                if (!dirPath) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                let config: PodcastConfig;
+                try {
+                    config = await readConfig(dirPath);
+                } catch (error) {
+                    return reply.code(422).send({ error: error instanceof Error ? error.message : String(error) });
+                }
+                return {
+                    config,
+                    overridden: await fs.pathExists(getConfigOverridePath(dirPath))
+                };
+            });
+
+            this.server.post<{ Params: { dirName: string }; Body: PodcastConfig }>('/admin/podcasts/:dirName/preview', async (request, reply) => {
+                const dirPath = await this.getPodcastDirPath(request.params.dirName);
+                if (!dirPath) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                const error = this.checkConfig(request.body);
+                if (error) {
+                    return reply.code(400).send({ error });
+                }
+                // 与扫描任务串行执行，且只读，不保存未提交配置下的剧集状态
+                let episodes: Episode[] = [];
+                await this.enqueue(async () => {
+                    episodes = await scanAudioFiles(dirPath, getConfigWithDefaults(dirPath, request.body), { readOnly: true });
+                });
+                // 集号与 feed 中发布的一致；episode.number 是排序值（如 S02E05 为 20005）
+                const numbers = getEpisodeNumbers(episodes);
+                return {
+                    episodes: episodes.map(episode => ({
+                        fileName: path.relative(dirPath, episode.filePath).split(path.sep).join('/'),
+                        season: episode.season,
+                        number: numbers.get(episode),
+                        title: episode.title,
+                        pubDate: episode.pubDate
+                    }))
+                };
             });
 
+            this.server.put<{ Params: { dirName: string }; Body: PodcastConfig }>('/admin/podcasts/:dirName/config', async (request, reply) => {
+                const dir = request.params.dirName;
+                const dirPath = await this.getPodcastDirPath(dir);
+                if (!dirPath) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                const error = this.checkConfig(request.body);
+                if (error) {
+                    return reply.code(400).send({ error });
+                }
+                const savedPath = await writeConfig(dirPath, request.body);
+                this.server.log.info(`Saved podcast config for ${dir}: ${savedPath}`);
+                await this.reprocessSource(dir);
+                return {
+                    config: request.body,
+                    overridden: savedPath === getConfigOverridePath(dirPath)
+                };
+            });
+
+            // 收听统计：?from=&to= 为日期（YYYY-MM-DD，默认最近 30 天），?podcast= 只看一个播客
+            this.server.get<{ Querystring: { from?: string; to?: string; podcast?: string } }>('/stats', async (request, reply) => {
+                const today = new Date();
+                const to = request.query.to ?? formatStatsDate(today);
+                const from = request.query.from
+                    ?? formatStatsDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - DEFAULT_STATS_DAYS + 1));
+                const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+                if (!isDate(from) || !isDate(to) || from > to) {
+                    return reply.code(400).send({ error: 'Invalid date range' });
+                }
+                if ((Date.parse(to) - Date.parse(from)) / 86400000 + 1 > MAX_STATS_DAYS) {
+                    return reply.code(400).send({ error: `Date range cannot exceed ${MAX_STATS_DAYS} days` });
+                }
+                const report = await getStatsReport(from, to, request.query.podcast);
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return {
+                    ...report,
+                    podcasts: report.podcasts.map(podcast => ({
+                        title: (this.sources.get(podcast.dirName) ?? this.virtualSources.get(podcast.dirName))?.config.title ?? podcast.dirName,
+                        ...podcast
+                    }))
+                };
+            });
+
+            // 管理接口：各用户在该播客上的收听进度
+            this.server.get<{ Params: { dirName: string } }>('/admin/podcasts/:dirName/progress', async (request, reply) => {
+                const { dirName } = request.params;
+                const source = this.sources.get(dirName) ?? this.virtualSources.get(dirName);
+                if (!source) {
+                    return reply.code(404).send({ error: 'Podcast not found' });
+                }
+                const episodes = await listEpisodes(source);
+                const users = [];
+                for (const user of await listSyncUsers()) {
+                    const progress = await getEpisodeProgress(user, episodes);
+                    if (progress.size === 0) continue;
+                    const listened = episodes
+                        .filter(episode => progress.has(episode.id))
+                        .map(episode => ({
+                            id: episode.id,
+                            title: episode.title,
+                            number: episode.number,
+                            season: episode.season,
+                            ...progress.get(episode.id) as EpisodeProgress
+                        }));
+                    users.push({
+                        user,
+                        finished: listened.filter(episode => episode.finished).length,
+                        inProgress: listened.filter(episode => !episode.finished).length,
+                        lastActivity: listened.map(episode => episode.updatedAt).sort().pop(),
+                        episodes: listened
+                    });
+                }
+                reply.header('Cache-Control', CACHE_CONTROL.api);
+                return { dirName, episodeCount: episodes.length, users };
+            });
+
+            // gpodder 同步接口
+            await this.server.register(async instance => this.registerSyncRoutes(instance));
+
             // 添加根路径重定向
             this.server.get('/', async (request, reply) => {
                 return reply.redirect('/web/index.html');
@@ -161,21 +909,258 @@ export class PodcastServer {
         }
     }
 
-    private async scanPodcastDirs(): Promise<string[]> {
+    /**
+     * gpodder.net v2 API 的子集（认证、设备、订阅、剧集动作），客户端把本服务器设为同步服务器即可
+     * 用户名为令牌名称，密码为令牌；同一用户的所有设备共用一份订阅列表
+     */
+    private async registerSyncRoutes(instance: FastifyInstance): Promise<void> {
+        // 部分客户端上传 JSON 时不带（或带错）Content-Type
+        instance.addContentTypeParser('*', { parseAs: 'string' }, (request, body, done) => {
+            try {
+                done(null, body ? JSON.parse(body as string) : undefined);
+            } catch {
+                done(Object.assign(new Error('Invalid JSON body'), { statusCode: 400 }), undefined);
+            }
+        });
+
+        // 路径中的用户名需与认证的用户一致
+        instance.addHook('preHandler', async (request, reply) => {
+            const { username } = request.params as { username?: string };
+            if (username === undefined) return;
+            const token = await authenticateSyncUser(request.headers.authorization, this.getSyncSessionId(request));
+            if (!token || token.name !== username.replace(/\.json$/, '')) {
+                return reply
+                    .code(401)
+                    .header('WWW-Authenticate', 'Basic realm="folder2podcast"')
+                    .send({ error: 'Invalid username or token' });
+            }
+        });
+
+        // gPodder 桌面版通过 clientconfig.json 获取 API 地址
+        instance.get('/clientconfig.json', async () => ({
+            mygpo: { baseurl: `${this.baseUrl}/` },
+            'mygpo-feedservice': { baseurl: `${this.baseUrl}/` },
+            update_timeout: 604800
+        }));
+
+        instance.post<{ Params: { username: string } }>('/api/2/auth/:username/login.json', async (request, reply) => {
+            // preHandler 已校验通过，会话绑定到这次使用的令牌
+            const token = await authenticateSyncUser(request.headers.authorization, this.getSyncSessionId(request));
+            if (!token) {
+                return reply.code(401).send({ error: 'Invalid username or token' });
+            }
+            const sessionId = createSession(token);
+            return reply
+                .header('Set-Cookie', `sessionid=${sessionId}; Path=/; HttpOnly; SameSite=Lax`)
+                .send({});
+        });
+
+        instance.post<{ Params: { username: string } }>('/api/2/auth/:username/logout.json', async (request, reply) => {
+            removeSession(this.getSyncSessionId(request));
+            return reply.header('Set-Cookie', 'sessionid=; Path=/; Max-Age=0').send({});
+        });
+
+        instance.get<{ Params: { username: string } }>('/api/2/devices/:username', async (request, reply) => {
+            if (!request.params.username.endsWith('.json')) {
+                return reply.code(404).send({ error: 'Only JSON format is supported' });
+            }
+            return listDevices(request.params.username.replace(/\.json$/, ''));
+        });
+
+        instance.post<{ Params: { username: string; device: string }; Body: { caption?: unknown; type?: unknown } }>('/api/2/devices/:username/:device', async (request, reply) => {
+            const device = this.getSyncDeviceId(request.params.device);
+            if (!device) {
+                return reply.code(400).send({ error: 'Invalid device id' });
+            }
+            const { caption, type } = request.body ?? {};
+            if ((caption !== undefined && typeof caption !== 'string')
+                || (type !== undefined && !DEVICE_TYPES.includes(type as typeof DEVICE_TYPES[number]))) {
+                return reply.code(400).send({ error: 'Invalid device settings' });
+            }
+            await updateDevice(request.params.username, device, { caption, type: type as string | undefined });
+            return {};
+        });
+
+        instance.get<{ Params: { username: string; device: string }; Querystring: { since?: string } }>('/api/2/subscriptions/:username/:device', async (request, reply) => {
+            const since = Number(request.query.since ?? 0);
+            if (!this.getSyncDeviceId(request.params.device) || !Number.isFinite(since)) {
+                return reply.code(400).send({ error: 'Invalid device id or since' });
+            }
+            return getSubscriptionChanges(request.params.username, since);
+        });
+
+        instance.post<{ Params: { username: string; device: string }; Body: { add?: unknown; remove?: unknown } }>('/api/2/subscriptions/:username/:device', async (request, reply) => {
+            const device = this.getSyncDeviceId(request.params.device);
+            const { add = [], remove = [] } = request.body ?? {};
+            const isUrlList = (value: unknown): value is string[] => Array.isArray(value) && value.every(url => typeof url === 'string');
+            if (!device || !isUrlList(add) || !isUrlList(remove)) {
+                return reply.code(400).send({ error: 'Invalid device id or subscription changes' });
+            }
+            if (add.some(url => remove.includes(url))) {
+                return reply.code(400).send({ error: 'The same URL cannot be added and removed' });
+            }
+            const timestamp = await uploadSubscriptionChanges(request.params.username, device, add, remove);
+            return { timestamp, update_urls: [] };
+        });
+
+        instance.get<{ Params: { username: string }; Querystring: { since?: string; podcast?: string; device?: string; aggregated?: string } }>('/api/2/episodes/:username', async (request, reply) => {
+            const since = Number(request.query.since ?? 0);
+            if (!request.params.username.endsWith('.json') || !Number.isFinite(since)) {
+                return reply.code(400).send({ error: 'Invalid request' });
+            }
+            return getEpisodeActions(request.params.username.replace(/\.json$/, ''), {
+                since,
+                podcast: request.query.podcast,
+                device: request.query.device,
+                aggregated: request.query.aggregated === 'true'
+            });
+        });
+
+        instance.post<{ Params: { username: string }; Body: unknown }>('/api/2/episodes/:username', async (request, reply) => {
+            const error = request.params.username.endsWith('.json') ? checkEpisodeActions(request.body) : 'Only JSON format is supported';
+            if (error) {
+                return reply.code(400).send({ error });
+            }
+            const timestamp = await uploadEpisodeActions(request.params.username.replace(/\.json$/, ''), request.body as EpisodeAction[]);
+            return { timestamp, update_urls: [] };
+        });
+    }
+
+    /**
+     * 收听统计：音频的完整请求和 Range 请求按响应长度估算传输量，按听众去重计算下载数（爬虫除外）
+     * feed 请求（包括 304）按客户端计数
+     */
+    private async recordStats(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        if (request.method !== 'GET') return;
+        const urlPath = request.url.split('?')[0];
+        const userAgent = request.headers['user-agent'];
+        let decoded: string;
+        try {
+            decoded = decodeURIComponent(urlPath);
+        } catch {
+            return;
+        }
+
+        if (decoded.startsWith('/feeds/')) {
+            if (reply.statusCode !== 200 && reply.statusCode !== 304) return;
+            const fileName = decoded.split('/').pop() as string;
+            await recordFeedPoll(fileName.replace(/\.[^.]+$/, ''), getClientApp(userAgent));
+            return;
+        }
+
+        if (!decoded.startsWith('/audio/') || (reply.statusCode !== 200 && reply.statusCode !== 206) || isBot(userAgent)) return;
+        const [dirName, ...rest] = decoded.slice('/audio/'.length).split('/');
+        const file = rest.join('/');
+        const source = this.sources.get(dirName);
+        const episode = source?.episodes.find(e => getEpisodeRelativePath(source, e.filePath) === file);
+        if (!episode) return;
+
+        // 静态文件的响应头直接写在原始响应上；Range 请求的 Content-Range 中带有文件总大小
+        const bytes = Number(reply.raw.getHeader('content-length')) || 0;
+        const fileSize = Number(String(reply.raw.getHeader('content-range') || '').split('/')[1]) || bytes;
+        await recordAudioRequest({
+            dirName,
+            file,
+            // 按章节拆分的文件以文件名统计
+            title: episode.chapter ? path.basename(file) : episode.title,
+            // 反向代理后的真实 IP 由 trustProxy（TRUST_PROXY）决定
+            listener: getListenerId(request.ip, userAgent),
+            bytes,
+            minBytes: getMinDownloadBytes(fileSize, episode.metadata?.duration)
+        });
+    }
+
+    // 登录后客户端携带的 sessionid Cookie
+    private getSyncSessionId(request: FastifyRequest): string | undefined {
+        return (request.headers.cookie || '').match(/(?:^|;\s*)sessionid=([^;]+)/)?.[1];
+    }
+
+    // 同步接口路径中的设备 id（<id>.json），格式不对时返回 null
+    private getSyncDeviceId(value: string): string | null {
+        const match = value.match(/^([\w.-]+)\.json$/);
+        return match ? match[1] : null;
+    }
+
+    // 播客列表中显示的状态标记
+    private getDiagnosticsSummary(dirName: string): { status: SourceDiagnostics['status']; issueCount: number } {
+        const diagnostics = this.diagnostics.get(dirName);
+        return {
+            status: diagnostics?.status ?? 'ok',
+            issueCount: diagnostics?.issues.length ?? 0
+        };
+    }
+
+    // 封面地址，站内地址在私有订阅时带上令牌
+    private getCoverPath(source: PodcastSource, token?: AccessToken): string {
+        const coverUrl = source.coverUrl || DEFAULT_COVER;
+        return token && source.coverUrl?.startsWith('/') ? addTokenToUrl(coverUrl, token.token) : coverUrl;
+    }
+
+    // feed 的访问路径，私有订阅时带上令牌
+    private getFeedPath(dirName: string, token?: AccessToken, format: FeedFormat = 'rss'): string {
+        const fileName = `${encodeURIComponent(dirName)}.${FEED_EXTENSIONS[format]}`;
+        return token ? `/feeds/${token.token}/${fileName}` : `/feeds/${fileName}`;
+    }
+
+    // 根据扩展名判断 feed 格式
+    private getFeedFormat(fileName: string): FeedFormat | undefined {
+        const ext = path.extname(fileName).slice(1);
+        return FEED_FORMATS.find(format => FEED_EXTENSIONS[format] === ext);
+    }
+
+    // 包含该播客目录的第一个根目录（只接受一级目录名），都不包含时返回 null
+    private async findPodcastRoot(dirName: string): Promise<LibraryRoot | null> {
+        if (!dirName || dirName !== path.basename(dirName) || dirName.startsWith('.')) {
+            return null;
+        }
+        for (const root of this.roots) {
+            const isDirectory = await fs.stat(path.join(root.path, dirName)).then(stats => stats.isDirectory(), () => false);
+            if (isDirectory) return root;
+        }
+        return null;
+    }
+
+    // 根目录下的播客目录，不存在时返回 null
+    private async getPodcastDirPath(dirName: string): Promise<string | null> {
+        const root = await this.findPodcastRoot(dirName);
+        return root ? path.join(root.path, dirName) : null;
+    }
+
+    // 校验管理接口提交的配置，返回错误信息
+    private checkConfig(config: unknown): string | null {
+        if (!config || typeof config !== 'object' || Array.isArray(config)) {
+            return 'Config must be a JSON object';
+        }
+        try {
+            validateConfigStrict(config as Record<string, unknown>);
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    // 所有根目录下的播客目录 -> 所在根目录；不同根目录中的同名目录只保留第一个
+    private async scanPodcastDirs(): Promise<Map<string, LibraryRoot>> {
         const { readdir, stat } = await import('fs/promises');
-        const entries = await readdir(this.audioDir);
-        const dirs = [];
+        const dirs = new Map<string, LibraryRoot>();
 
-        for (const entry of entries) {
-            const fullPath = path.join(this.audioDir, entry);
-            try {
-                const stats = await stat(fullPath);
-                if (stats.isDirectory()) {
-                    dirs.push(entry);
+        for (const root of this.roots) {
+            const entries = await readdir(root.path);
+            for (const entry of entries) {
+                const fullPath = path.join(root.path, entry);
+                try {
+                    const stats = await stat(fullPath);
+                    if (!stats.isDirectory()) continue;
+                    const existing = dirs.get(entry);
+                    if (existing) {
+                        this.server.log.warn(`Skipping ${fullPath}: podcast "${entry}" already exists in root "${existing.name}"`);
+                        continue;
+                    }
+                    dirs.set(entry, root);
+                } catch (error) {
+                    this.server.log.warn(`Failed to stat ${entry}:`, error);
+                    continue;
                 }
-            } catch (error) {
-                this.server.log.warn(`Failed to stat ${entry}:`, error);
-                continue;
             }
         }
 
@@ -185,7 +1170,10 @@ export class PodcastServer {
     private async saveFeed(feedPath: string, feed: string): Promise<void> {
         const feedDir = path.dirname(feedPath);
         await fs.ensureDir(feedDir);  // 确保目录存在
-        await fs.writeFile(feedPath, feed, 'utf-8');
+        // 先写临时文件再改名，客户端不会读到写了一半的 feed
+        const tmpPath = `${feedPath}.tmp`;
+        await fs.writeFile(tmpPath, feed, 'utf-8');
+        await fs.move(tmpPath, feedPath, { overwrite: true });
     }
 
     public async start(): Promise<void> {
@@ -202,19 +1190,39 @@ export class PodcastServer {
     }
 
     public async stop(): Promise<void> {
+        if (this.releaseTimer) {
+            clearTimeout(this.releaseTimer);
+        }
+        if (this.virtualFeedTimer) {
+            clearTimeout(this.virtualFeedTimer);
+        }
+        if (this.statsTimer) {
+            clearInterval(this.statsTimer);
+        }
         await this.server.close();
+        await flushStats();
     }
 
-    public get audioDirectory(): string {
-        return this.audioDir;
+    public get libraryRoots(): LibraryRoot[] {
+        return this.roots;
     }
 
     public async reprocessSources(): Promise<void> {
         try {
-            await this.processSources();
+            await this.enqueue(() => this.processSources());
         } catch (error) {
             this.server.log.error('Error reprocessing podcast sources:', error);
             throw error;
         }
     }
+
+    /** 增量更新：只重新扫描指定的播客目录（根目录下的一级目录名） */
+    public async reprocessSource(dir: string): Promise<void> {
+        try {
+            await this.enqueue(() => this.processSource(dir));
+        } catch (error) {
+            this.server.log.error(`Error reprocessing podcast source ${dir}:`, error);
+            throw error;
+        }
+    }
 }
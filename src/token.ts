@@ -0,0 +1,65 @@
+import { getEnvConfig } from './utils/env';
+import { ALL_PODCASTS, AccessToken, createToken, getTokensFilePath, loadTokens, revokeToken, setTokenPodcasts } from './utils/auth';
+
+const USAGE = `用法:
+  folder2podcast token add <名称> [播客目录...]     签发令牌，不指定播客时可访问全部
+  folder2podcast token list                        列出所有令牌
+  folder2podcast token scope <令牌> [播客目录...]   修改令牌可访问的播客
+  folder2podcast token revoke <令牌>               吊销令牌`;
+
+function printToken(token: AccessToken): void {
+    const { BASE_URL } = getEnvConfig();
+    const status = token.revokedAt ? `已吊销 ${token.revokedAt}` : '有效';
+    console.log(`${token.token}  ${token.name}  [${status}]`);
+    if (token.revokedAt) return;
+    console.log(`  同步（gpodder）: 服务器 ${BASE_URL}，用户名 ${token.name}，密码为令牌`);
+    if (token.podcasts.includes(ALL_PODCASTS)) {
+        console.log(`  可访问: 全部播客（网页: ${BASE_URL}/web/index.html?token=${token.token}）`);
+        return;
+    }
+    for (const dirName of token.podcasts) {
+        console.log(`  ${dirName}: ${BASE_URL}/feeds/${token.token}/${encodeURIComponent(dirName)}.xml`);
+    }
+}
+
+/** 私有订阅令牌管理（AUTH_ENABLED=true 时生效），令牌保存在 .auth/tokens.json */
+export async function runTokenCommand(args: string[]): Promise<void> {
+    const [command, ...rest] = args;
+
+    switch (command) {
+        case 'add': {
+            const [name, ...podcasts] = rest;
+            if (!name) break;
+            printToken(await createToken(name, podcasts));
+            return;
+        }
+        case 'list': {
+            const tokens = await loadTokens();
+            if (tokens.length === 0) {
+                console.log(`还没有令牌（${getTokensFilePath()}）`);
+            }
+            tokens.forEach(printToken);
+            return;
+        }
+        case 'scope': {
+            const [value, ...podcasts] = rest;
+            if (!value) break;
+            if (!await setTokenPodcasts(value, podcasts)) {
+                throw new Error(`Token not found: ${value}`);
+            }
+            console.log('已更新令牌可访问的播客');
+            return;
+        }
+        case 'revoke': {
+            const [value] = rest;
+            if (!value) break;
+            if (!await revokeToken(value)) {
+                throw new Error(`Token not found: ${value}`);
+            }
+            console.log('令牌已吊销');
+            return;
+        }
+    }
+
+    console.log(USAGE);
+}
@@ -1,9 +1,61 @@
+// 章节（Podcasting 2.0 chapters），时间单位为秒
+export interface Chapter {
+    startTime: number;
+    endTime?: number;
+    title: string;
+}
+
+// 从音频文件头解析出的信息（ID3/MP4 atom/RIFF），字段均可能缺失
+export interface AudioMetadata {
+    duration?: number;  // 时长（秒）
+    bitrate?: number;   // 码率（kbps）
+    title?: string;
+    artist?: string;
+    album?: string;
+    track?: number;
+    date?: string;      // 标签中的原始日期字符串，如 2023 / 2023-05-14
+    chapters?: Chapter[];  // 内嵌章节（MP4 chpl / QuickTime 章节轨）
+}
+
+// 单集元数据覆盖：来自文件夹中的 episodes.json 或与音频同名的 <stem>.json
+export interface EpisodeOverride {
+    title?: string;
+    description?: string;  // 节目简介（纯文本，空行分段）
+    number?: number;       // 集号，同时影响排序
+    season?: number;
+    pubDate?: string;      // 发布时间（ISO 日期，如 2024-05-01 或 2024-05-01T08:00:00+08:00）
+    explicit?: boolean;
+    episodeType?: 'full' | 'trailer' | 'bonus';
+    image?: string;        // 单集封面：相对音频所在文件夹的路径或 http(s) 地址
+}
+
 export interface Episode {
+    // 排序用的序号：复合序号为 季 × 10000 + 集，上/下篇带小数，无序号时为文件时间；feed 中的集号见 getEpisodeNumbers
     number: number;
     title: string;
     fileName: string;
     filePath: string;
     pubDate: Date;
+    metadata?: AudioMetadata;
+    // 季号：来自季文件夹（seasonMode=seasons）或复合序号（S02E05），未分季时为 1
+    season?: number;
+    // 季文件夹名，如 "Season 1"
+    seasonName?: string;
+    // 持久 GUID 与首次发现时间，来自 .state 中的剧集状态
+    guid?: string;
+    firstSeen?: Date;
+    // 章节：来自 .cue 文件或内嵌章节
+    chapters?: Chapter[];
+    // splitChapters 模式下由章节拆出的虚拟剧集，指向原文件中的一段
+    chapter?: {
+        index: number;
+        startTime: number;
+        endTime?: number;
+    };
+    // 排期解锁时间（配置了 releaseSchedule 时），未到时间的剧集不会出现在 feed 中
+    releaseDate?: Date;
+    // 单集元数据覆盖（title / number 已直接应用到剧集上）
+    override?: EpisodeOverride;
 }
 
 export type EpisodeNumberStrategy =
@@ -11,8 +63,35 @@ export type EpisodeNumberStrategy =
     | 'suffix'          // 默认：从文件名末尾匹配数字
     | 'first'           // 配置：从左到右找第一个数字
     | 'last'            // 配置：从右到左找最后一个数字
+    | 'chinese'         // 配置：中文数字，如 第十二讲 / 第一百零三期 / 上篇、下篇
+    | 'roman'           // 配置：罗马数字，如 Part IV / Chapter XII
+    | 'compound'        // 配置：季 + 集，如 S02E05 / 3-2 / 第三季第五集
     | { pattern: string }; // 配置：使用自定义正则表达式
 
+export type PubDateStrategy =
+    | 'sequential'      // 默认：按排序后的顺序每天一集
+    | 'mtime'           // 文件修改时间
+    | 'filename'        // 文件名中的日期（如 2023-05-14 / 20230514 / 2023年5月14日）
+    | 'tag'             // ID3/MP4 标签中的日期
+    | 'firstSeen';      // 首次扫描到该文件的时间
+
+// 分批发布排期，如 { start: '2025-01-06', cadence: 'weekdays', time: '07:00' } 或 { cadence: { perWeek: 3 } }
+export interface ReleaseSchedule {
+    start: string;       // 首集解锁日期（YYYY-MM-DD，服务器本地时区）
+    cadence: 'daily' | 'weekdays' | 'weekly' | { perWeek: number };
+    time?: string;       // 解锁时刻 HH:mm，默认 00:00
+    batchSize?: number;  // 每次解锁的集数，默认 1
+}
+
+// Podcasting 2.0 podcast:person，如 { name: '张三', role: 'host', img: 'https://...' }
+export interface PodcastPerson {
+    name: string;
+    role?: string;   // 角色（host / guest / narrator ...），默认 host
+    group?: string;  // 分组（cast / writing ...），默认 cast
+    img?: string;    // 头像地址
+    href?: string;   // 个人主页
+}
+
 export interface PodcastConfig {
     title?: string;
     description?: string;
@@ -24,12 +103,41 @@ export interface PodcastConfig {
     websiteUrl?: string;
     titleFormat?: 'clean' | 'full';  // 标题显示策略：clean=清理后的标题，full=完整文件名
     episodeNumberStrategy?: EpisodeNumberStrategy;  // 可选：序号提取策略
-    useMTime?: boolean;  // 是否使用文件的创建时间作为发布时间
+    useMTime?: boolean;  // 是否使用文件的创建时间作为发布时间（未设置 pubDateStrategy 时等同于 mtime）
+    pubDateStrategy?: PubDateStrategy;  // 发布时间策略，取不到日期时按策略的回退链依次尝试
+    releaseSchedule?: ReleaseSchedule | null;  // 分批发布排期，按列表顺序逐集解锁
+    includeExtensions?: string[];  // 只扫描这些扩展名（如 ["m4b", "mp3"]），为空表示全部支持的格式
+    excludeExtensions?: string[];  // 不扫描这些扩展名（如 ["wav"]）
+    splitChapters?: boolean;  // 把带章节的长音频（m4b / .cue）拆分为每章一集
+    seasonMode?: 'seasons' | 'flatten';  // 子文件夹处理方式：seasons=每个子文件夹为一季，flatten=合并为单季
+    order?: string[];  // 手动排序：文件名或通配符列表（目录中有 order.txt 时以 order.txt 为准）
+    podcastNamespace?: boolean;  // 是否输出 Podcasting 2.0（podcast:）命名空间标签
+    locked?: boolean;  // podcast:locked，禁止其他平台导入本节目
+    medium?: string;   // podcast:medium，如 podcast / audiobook / course
+    persons?: PodcastPerson[];  // podcast:person，节目的主播/嘉宾等
+    tags?: string[];  // 标签，如 ["language-learning"]，虚拟 feed 可按标签聚合
+    feedLimit?: number;  // 主 feed 最多包含的集数，0 表示不限制
+    feedLimitOrder?: 'latest' | 'first';  // 保留最新的 N 集（latest）还是最早的 N 集（first）
+    feedPaging?: boolean;  // 超出 feedLimit 的剧集是否按同样大小分页（RFC 5005，/feeds/<dir>.xml?page=2）
     // Optional: remote cover fetch overrides
     coverSearchTerm?: string;
     coverImageUrl?: string;
 }
 
+// 虚拟 feed：在媒体库根目录的 feeds.json 中定义，聚合多个播客的剧集
+// podcasts / tags / roots 同时设置时取交集，都不设置时包含全部播客
+export interface VirtualFeedDefinition {
+    id: string;            // feed 地址 /feeds/<id>.xml，不能与播客目录同名
+    title: string;
+    description?: string;
+    author?: string;
+    coverImageUrl?: string;
+    podcasts?: string[];   // 播客目录名列表
+    tags?: string[];       // 包含任一标签的播客（podcast.json 中的 tags）
+    roots?: string[];      // 只包含这些根目录（AUDIO_ROOTS 中的名称）下的播客
+    recentDays?: number;   // 只包含最近 N 天新加入的剧集（排期解锁时间或首次发现时间）
+}
+
 export interface PodcastSource {
     dirName: string;
     dirPath: string;
@@ -38,8 +146,16 @@ export interface PodcastSource {
     coverPath?: string;
     // Resolved cover URL (route path like /audio/... or /covers/..., or absolute URL).
     coverUrl?: string;
+    // 所在媒体库根目录的名称
+    root?: string;
+    // 虚拟 feed 的定义；剧集来自其他播客，episodeSources 记录每集所属的播客（用于生成音频等地址）
+    virtual?: VirtualFeedDefinition;
+    episodeSources?: Map<Episode, PodcastSource>;
 }
 
+// feed 输出格式：RSS 2.0（含 iTunes / Podcasting 2.0 标签）、Atom 1.0、JSON Feed 1.1
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
 export interface ProcessOptions {
     baseUrl: string;
     defaultCover: string;
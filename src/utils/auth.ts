@@ -0,0 +1,171 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// 允许访问全部播客的通配符
+export const ALL_PODCASTS = '*';
+
+const TOKENS_VERSION = 1;
+
+export interface AccessToken {
+    token: string;
+    // 订阅者名称（备注），如 "alice" 或 "课程一期学员"
+    name: string;
+    // 可访问的播客目录名，["*"] 表示全部
+    podcasts: string[];
+    createdAt: string;
+    // 吊销时间，吊销后的令牌不能再访问 feed 和音频
+    revokedAt?: string;
+}
+
+interface TokensFile {
+    version: number;
+    tokens: AccessToken[];
+}
+
+// 内存中的令牌列表，令牌文件修改（如通过命令行吊销）后自动重新加载
+let tokens: AccessToken[] = [];
+let loadedMtimeMs = -1;
+
+export function getTokensFilePath(): string {
+    return path.join(process.cwd(), '.auth', 'tokens.json');
+}
+
+export async function loadTokens(): Promise<AccessToken[]> {
+    const filePath = getTokensFilePath();
+    const mtimeMs = await fs.stat(filePath).then(stat => stat.mtimeMs, () => 0);
+    if (mtimeMs === loadedMtimeMs) return tokens;
+
+    tokens = [];
+    if (mtimeMs > 0) {
+        try {
+            const data = await fs.readJSON(filePath) as TokensFile;
+            if (data.version === TOKENS_VERSION && Array.isArray(data.tokens)) {
+                tokens = data.tokens;
+            }
+        } catch (error) {
+            console.warn(`Failed to read access tokens from ${filePath}:`, error);
+        }
+    }
+    loadedMtimeMs = mtimeMs;
+    return tokens;
+}
+
+async function saveTokens(list: AccessToken[]): Promise<void> {
+    const filePath = getTokensFilePath();
+    const tmpPath = `${filePath}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJSON(tmpPath, { version: TOKENS_VERSION, tokens: list } as TokensFile, { spaces: 2 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+    // 强制下次访问时重新加载
+    loadedMtimeMs = -1;
+}
+
+/**
+ * 为订阅者签发令牌，podcasts 为空时可访问全部播客
+ * 名称同时是同步（gpodder）的用户名：不能包含 :（Basic 认证无法表示），也不能与有效令牌重名
+ */
+export async function createToken(name: string, podcasts: string[]): Promise<AccessToken> {
+    if (!name.trim() || name.includes(':')) {
+        throw new Error(`Invalid token name: "${name}" (must be non-empty and must not contain ":")`);
+    }
+    const list = await loadTokens();
+    if (list.some(t => !t.revokedAt && t.name === name)) {
+        throw new Error(`An active token named "${name}" already exists; revoke it first or choose another name`);
+    }
+    const token: AccessToken = {
+        token: crypto.randomBytes(18).toString('base64url'),
+        name,
+        podcasts: podcasts.length > 0 ? podcasts : [ALL_PODCASTS],
+        createdAt: new Date().toISOString()
+    };
+    await saveTokens([...list, token]);
+    return token;
+}
+
+/** 吊销令牌（保留记录），不存在时返回 false */
+export async function revokeToken(value: string): Promise<boolean> {
+    const list = await loadTokens();
+    const existing = list.find(t => t.token === value);
+    if (!existing) return false;
+    await saveTokens(list.map(t => t === existing ? { ...t, revokedAt: t.revokedAt || new Date().toISOString() } : t));
+    return true;
+}
+
+/** 修改令牌可访问的播客列表 */
+export async function setTokenPodcasts(value: string, podcasts: string[]): Promise<boolean> {
+    const list = await loadTokens();
+    if (!list.some(t => t.token === value)) return false;
+    await saveTokens(list.map(t => t.token === value
+        ? { ...t, podcasts: podcasts.length > 0 ? podcasts : [ALL_PODCASTS] }
+        : t));
+    return true;
+}
+
+/** 查找有效（存在且未吊销）的令牌 */
+export async function findActiveToken(value: string | undefined): Promise<AccessToken | undefined> {
+    if (!value) return undefined;
+    const list = await loadTokens();
+    return list.find(t => !t.revokedAt && t.token === value);
+}
+
+/** 校验管理接口的 Authorization: Bearer <ADMIN_TOKEN>，使用定长比较避免计时攻击 */
+export function isAdminAuthorized(authorization: string | undefined, adminToken: string): boolean {
+    const match = (authorization || '').match(/^Bearer\s+(.+)$/i);
+    if (!adminToken || !match) return false;
+    const expected = crypto.createHash('sha256').update(adminToken).digest();
+    const actual = crypto.createHash('sha256').update(match[1].trim()).digest();
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+export function canAccessPodcast(token: AccessToken, dirName: string): boolean {
+    return token.podcasts.includes(ALL_PODCASTS) || token.podcasts.includes(dirName);
+}
+
+/**
+ * 受保护的资源路径 -> 所属播客目录名
+ * /audio/<dir>/...、/chapters/<dir>/...、/transcripts/<dir>/...、/covers/<dir>.<ext>、/podcasts/<dir>/...
+ * 不受保护的路径（网页、默认封面等）返回 null
+ */
+export function getProtectedPodcast(urlPath: string): string | null {
+    const prefix = urlPath.match(/^\/(audio|chapters|transcripts|covers|podcasts)\//);
+    if (!prefix) return null;
+
+    // 先解码再规范化，避免 /audio/<dir>/..%2F<other>/ 之类的路径绕过播客范围
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(urlPath);
+    } catch {
+        decoded = urlPath;
+    }
+    const match = path.posix.normalize(decoded).match(new RegExp(`^/${prefix[1]}/([^/]+)`));
+    // 规范化后跳出了前缀目录：只有可访问全部播客的令牌才放行
+    if (!match) return '';
+
+    // 远程封面缓存以目录名命名：.covers/<dir>.jpg
+    return prefix[1] === 'covers' ? match[1].replace(/\.[^.]+$/, '') : match[1];
+}
+
+/** 站内资源地址追加 ?token=，保留 #t= 等片段 */
+export function addTokenToUrl(url: string, token: string): string {
+    const [base, fragment] = url.split('#', 2);
+    const separator = base.includes('?') ? '&' : '?';
+    return `${base}${separator}token=${token}${fragment !== undefined ? `#${fragment}` : ''}`;
+}
+
+/**
+ * 把 feed（RSS / Atom / JSON Feed）中指向本服务的链接改写为带令牌的地址：
+ * 音频、封面、章节、转录追加 ?token=，feed 自身地址改为 /feeds/<token>/<dir>.xml（.atom / .json）
+ */
+export function addTokenToFeed(xml: string, baseUrl: string, token: string): string {
+    const base = baseUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return xml
+        .replace(
+            new RegExp(`(${base}/(?:audio|covers|chapters|transcripts)/[^"'<>\\s?#]*)`, 'g'),
+            `$1?token=${token}`
+        )
+        .replace(
+            new RegExp(`${base}/feeds/([^"'<>\\s?#/]+\\.(?:xml|atom|json))`, 'g'),
+            `${baseUrl}/feeds/${token}/$1`
+        );
+}
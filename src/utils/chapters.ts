@@ -0,0 +1,151 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Chapter, Episode } from '../types';
+import { fillChapterEndTimes } from './metadata/reader';
+import { uuidV5 } from './state';
+import { reportWarning } from './diagnostics';
+
+// CUE 的 INDEX 时间为 mm:ss:ff，每秒 75 帧
+const CUE_FRAMES_PER_SECOND = 75;
+
+// 老的 CUE 文件常用 GBK 编码，UTF-8 解码出现替换字符时回退
+function decodeCueText(buf: Buffer): string {
+    const utf8 = buf.toString('utf8').replace(/^\uFEFF/, '');
+    if (!utf8.includes('\uFFFD')) return utf8;
+    try {
+        return new TextDecoder('gbk').decode(buf);
+    } catch {
+        return utf8;
+    }
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    const match = trimmed.match(/^"(.*)"/);
+    return match ? match[1] : trimmed;
+}
+
+/**
+ * 解析 CUE 文件中的音轨为章节
+ * 一个 CUE 对应多个 FILE 时，只取与 audioFileName 同名的部分
+ */
+export function parseCueSheet(content: string, audioFileName?: string): Chapter[] {
+    const files: Array<{ name: string; chapters: Chapter[] }> = [];
+    let current: { title?: string; performer?: string; startTime?: number } | null = null;
+
+    const flushTrack = () => {
+        const file = files[files.length - 1];
+        if (current && file && current.startTime !== undefined) {
+            const title = current.title || `Track ${file.chapters.length + 1}`;
+            file.chapters.push({
+                startTime: current.startTime,
+                title: current.performer ? `${title} - ${current.performer}` : title
+            });
+        }
+        current = null;
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const [command] = line.split(/\s+/, 1);
+        const rest = line.slice(command.length);
+
+        switch (command.toUpperCase()) {
+            case 'FILE':
+                flushTrack();
+                files.push({ name: unquote(rest.replace(/\s+\w+\s*$/, '')), chapters: [] });
+                break;
+            case 'TRACK':
+                flushTrack();
+                current = {};
+                break;
+            case 'TITLE':
+                if (current) current.title = unquote(rest);
+                break;
+            case 'PERFORMER':
+                if (current) current.performer = unquote(rest);
+                break;
+            case 'INDEX': {
+                const match = rest.trim().match(/^(\d+)\s+(\d+):(\d+):(\d+)/);
+                if (current && match && parseInt(match[1], 10) === 1) {
+                    current.startTime = parseInt(match[2], 10) * 60
+                        + parseInt(match[3], 10)
+                        + parseInt(match[4], 10) / CUE_FRAMES_PER_SECOND;
+                }
+                break;
+            }
+        }
+    }
+    flushTrack();
+
+    if (files.length === 1 || !audioFileName) {
+        return files.flatMap(f => f.chapters);
+    }
+    const target = audioFileName.toLowerCase();
+    const matched = files.find(f => path.basename(f.name).toLowerCase() === target);
+    return matched ? matched.chapters : [];
+}
+
+// 音频旁的 CUE 文件：album.cue 或 album.flac.cue
+async function findCueSheet(filePath: string): Promise<string | null> {
+    const stem = filePath.replace(/\.[^/.]+$/, '');
+    for (const candidate of [`${stem}.cue`, `${filePath}.cue`]) {
+        if (await fs.pathExists(candidate)) return candidate;
+    }
+    return null;
+}
+
+/** 读取剧集章节：优先使用同名 .cue 文件，其次是文件内嵌章节 */
+export async function loadEpisodeChapters(episode: Episode): Promise<Chapter[] | undefined> {
+    const duration = episode.metadata?.duration;
+    const cuePath = await findCueSheet(episode.filePath);
+    if (cuePath) {
+        try {
+            const chapters = parseCueSheet(decodeCueText(await fs.readFile(cuePath)), episode.fileName);
+            if (chapters.length > 0) {
+                return fillChapterEndTimes(chapters, duration);
+            }
+        } catch (error) {
+            reportWarning(`Failed to read cue sheet ${cuePath}:`, cuePath, error);
+        }
+    }
+
+    const embedded = episode.metadata?.chapters;
+    return embedded && embedded.length > 0 ? embedded : undefined;
+}
+
+/**
+ * 把带多个章节的剧集拆成每章一集的虚拟剧集
+ * 虚拟剧集共用原文件，播放地址通过时间偏移（#t=start,end）定位
+ */
+export function splitEpisodesByChapters(episodes: Episode[]): Episode[] {
+    return episodes.flatMap(episode => {
+        const chapters = episode.chapters;
+        if (!chapters || chapters.length < 2) return [episode];
+
+        return chapters.map((chapter, index) => ({
+            ...episode,
+            title: chapter.title,
+            // 基于原剧集 GUID 派生，章节拆分前后保持稳定
+            guid: episode.guid ? uuidV5(`chapter:${index + 1}`, episode.guid) : undefined,
+            chapters: undefined,
+            chapter: {
+                index,
+                startTime: chapter.startTime,
+                endTime: chapter.endTime
+            }
+        }));
+    });
+}
+
+/** Podcasting 2.0 章节 JSON（application/json+chapters） */
+export function toChaptersJson(chapters: Chapter[]): { version: string; chapters: Chapter[] } {
+    return {
+        version: '1.2.0',
+        chapters: chapters.map(chapter => ({
+            startTime: Math.round(chapter.startTime * 1000) / 1000,
+            ...(chapter.endTime !== undefined ? { endTime: Math.round(chapter.endTime * 1000) / 1000 } : {}),
+            title: chapter.title
+        }))
+    };
+}
@@ -3,6 +3,10 @@ import path from 'path';
 import { PodcastConfig, EpisodeNumberStrategy } from '../types';
 
 import { getEnvConfig } from './env';
+import { PUB_DATE_STRATEGIES } from './pubdate';
+import { validateReleaseSchedule } from './schedule';
+import { SUPPORTED_EXTENSIONS, normalizeExtension } from './episode';
+import { PODCAST_MEDIUMS, validatePersons } from './podcasting';
 
 export const DEFAULT_CONFIG: Required<PodcastConfig> = {
     title: '',          // 将在处理时被文件夹名替换
@@ -16,26 +20,82 @@ export const DEFAULT_CONFIG: Required<PodcastConfig> = {
     titleFormat: getEnvConfig().TITLE_FORMAT,  // 使用全局环境变量中的配置
     episodeNumberStrategy: 'prefix',  // 默认使用前缀匹配策略
     useMTime: false,    // 默认不使用文件创建时间
+    pubDateStrategy: 'sequential',  // 默认按顺序每天一集
+    releaseSchedule: null,  // 默认不排期，全部剧集立即可见
+    includeExtensions: [],  // 默认扫描全部支持的格式
+    excludeExtensions: [],
+    splitChapters: false,   // 默认整文件一集，章节通过 podcast:chapters 提供
+    seasonMode: 'seasons',  // 默认把子文件夹当作季
+    order: [],              // 默认不手动排序
+    podcastNamespace: false,  // 默认不输出 podcast: 命名空间标签，升级后已有 feed 保持不变
+    locked: false,
+    medium: 'podcast',
+    persons: [],
+    tags: [],
+    feedLimit: 0,            // 默认 feed 包含全部剧集
+    feedLimitOrder: 'latest',
+    feedPaging: true,        // 限制集数时默认分页，完整的历史剧集仍可访问
     coverSearchTerm: '',
     coverImageUrl: ''
 };
 
+// 覆盖配置：<CONFIG_OVERRIDES_DIR>/<文件夹名>/podcast.json，音频目录只读时由管理界面写入，优先于目录中的 podcast.json
+export function getConfigOverridePath(dirPath: string): string {
+    return path.join(getEnvConfig().CONFIG_OVERRIDES_DIR, path.basename(dirPath), 'podcast.json');
+}
+
 export async function readConfig(dirPath: string): Promise<PodcastConfig> {
-    const configPath = path.join(dirPath, 'podcast.json');
-    try {
-        const config = await fs.readJSON(configPath);
-        return config;
-    } catch {
-        // 如果配置文件不存在或无法读取，返回空对象
+    const overridePath = getConfigOverridePath(dirPath);
+    const configPath = await fs.pathExists(overridePath)
+        ? overridePath
+        : path.join(dirPath, 'podcast.json');
+    // 配置文件不存在时返回空对象
+    if (!await fs.pathExists(configPath)) {
         return {};
     }
+    let config: unknown;
+    try {
+        config = await fs.readJSON(configPath);
+    } catch (error) {
+        // 格式错误时报错，而不是悄悄地使用默认配置
+        // jsonfile 的错误信息以完整路径开头，诊断信息中只保留文件名
+        const message = (error instanceof Error ? error.message : String(error)).replace(`${configPath}: `, '');
+        throw new Error(`Invalid JSON in ${path.basename(configPath)}: ${message}`);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`${path.basename(configPath)} must contain a JSON object`);
+    }
+    return config as PodcastConfig;
+}
+
+/**
+ * 保存配置：默认写入目录中的 podcast.json；
+ * 已有覆盖配置或目录不可写（只读挂载）时写入覆盖目录
+ */
+export async function writeConfig(dirPath: string, config: PodcastConfig): Promise<string> {
+    const overridePath = getConfigOverridePath(dirPath);
+    if (!await fs.pathExists(overridePath)) {
+        const configPath = path.join(dirPath, 'podcast.json');
+        try {
+            await fs.writeJSON(configPath, config, { spaces: 2 });
+            return configPath;
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code !== 'EROFS' && code !== 'EACCES' && code !== 'EPERM') {
+                throw error;
+            }
+        }
+    }
+    await fs.ensureDir(path.dirname(overridePath));
+    await fs.writeJSON(overridePath, config, { spaces: 2 });
+    return overridePath;
 }
 
 function validateEpisodeNumberStrategy(strategy: EpisodeNumberStrategy): void {
     if (typeof strategy === 'string') {
-        if (!['prefix', 'suffix', 'first', 'last'].includes(strategy)) {
+        if (!['prefix', 'suffix', 'first', 'last', 'chinese', 'roman', 'compound'].includes(strategy)) {
             throw new Error(
-                'Invalid episode number strategy. Must be one of: prefix, suffix, first, last'
+                'Invalid episode number strategy. Must be one of: prefix, suffix, first, last, chinese, roman, compound'
             );
         }
     } else if (typeof strategy === 'object') {
@@ -67,12 +127,143 @@ export function validateConfig(config: PodcastConfig): void {
         throw new Error('Invalid website URL format in podcast.json');
     }
 
+    // 验证扩展名白名单/黑名单
+    for (const key of ['includeExtensions', 'excludeExtensions'] as const) {
+        const list = config[key];
+        if (list === undefined) continue;
+        if (!Array.isArray(list) || list.some(ext => typeof ext !== 'string')) {
+            throw new Error(`${key} in podcast.json must be an array of file extensions`);
+        }
+        const unsupported = list.filter(ext => !SUPPORTED_EXTENSIONS.includes(normalizeExtension(ext)));
+        if (unsupported.length > 0) {
+            throw new Error(
+                `Unsupported extensions in ${key}: ${unsupported.join(', ')}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`
+            );
+        }
+    }
+
+    // 验证分季模式
+    if (config.seasonMode && !['seasons', 'flatten'].includes(config.seasonMode)) {
+        throw new Error('Invalid seasonMode in podcast.json. Must be one of: seasons, flatten');
+    }
+
+    // 验证手动排序列表
+    if (config.order !== undefined && (!Array.isArray(config.order) || config.order.some(entry => typeof entry !== 'string'))) {
+        throw new Error('order in podcast.json must be an array of file names or glob patterns');
+    }
+
+    // 验证 Podcasting 2.0 相关配置
+    if (config.medium && !PODCAST_MEDIUMS.includes(config.medium)) {
+        throw new Error(`Invalid medium in podcast.json. Must be one of: ${PODCAST_MEDIUMS.join(', ')}`);
+    }
+    if (config.persons !== undefined) {
+        validatePersons(config.persons);
+    }
+
+    // 验证标签
+    if (config.tags !== undefined && (!Array.isArray(config.tags) || config.tags.some(tag => typeof tag !== 'string' || !tag.trim()))) {
+        throw new Error('tags in podcast.json must be an array of non-empty strings');
+    }
+
+    // 验证 feed 集数限制与分页
+    if (config.feedLimit !== undefined && (!Number.isInteger(config.feedLimit) || config.feedLimit < 0)) {
+        throw new Error('feedLimit in podcast.json must be a non-negative integer');
+    }
+    if (config.feedLimitOrder && !['latest', 'first'].includes(config.feedLimitOrder)) {
+        throw new Error('Invalid feedLimitOrder in podcast.json. Must be one of: latest, first');
+    }
+    if (config.feedPaging !== undefined && typeof config.feedPaging !== 'boolean') {
+        throw new Error('feedPaging in podcast.json must be a boolean');
+    }
+
+    // 验证发布时间策略
+    if (config.pubDateStrategy && !PUB_DATE_STRATEGIES.includes(config.pubDateStrategy)) {
+        throw new Error(
+            `Invalid pubDateStrategy in podcast.json. Must be one of: ${PUB_DATE_STRATEGIES.join(', ')}`
+        );
+    }
+
+    // 验证发布排期
+    if (config.releaseSchedule) {
+        validateReleaseSchedule(config.releaseSchedule);
+    }
+
     // 验证剧集序号提取策略
     if (config.episodeNumberStrategy) {
         validateEpisodeNumberStrategy(config.episodeNumberStrategy);
     }
 }
 
+// podcast.json 各字段允许的 JSON 类型，管理接口保存前据此拒绝未知字段和类型错误
+type ConfigValueType = 'string' | 'boolean' | 'number' | 'array' | 'object' | 'null';
+
+const CONFIG_FIELD_TYPES: Record<keyof PodcastConfig, ConfigValueType[]> = {
+    title: ['string'],
+    description: ['string'],
+    author: ['string'],
+    language: ['string'],
+    category: ['string'],
+    explicit: ['boolean'],
+    email: ['string'],
+    websiteUrl: ['string'],
+    titleFormat: ['string'],
+    episodeNumberStrategy: ['string', 'object'],
+    useMTime: ['boolean'],
+    pubDateStrategy: ['string'],
+    releaseSchedule: ['object', 'null'],
+    includeExtensions: ['array'],
+    excludeExtensions: ['array'],
+    splitChapters: ['boolean'],
+    seasonMode: ['string'],
+    order: ['array'],
+    podcastNamespace: ['boolean'],
+    locked: ['boolean'],
+    medium: ['string'],
+    persons: ['array'],
+    tags: ['array'],
+    feedLimit: ['number'],
+    feedLimitOrder: ['string'],
+    feedPaging: ['boolean'],
+    coverSearchTerm: ['string'],
+    coverImageUrl: ['string']
+};
+
+function getValueType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * 严格校验（管理接口写入前使用）：拒绝未知字段，检查每个字段的类型和取值
+ * 目录中手写的 podcast.json 仍只做 validateConfig 的宽松校验，避免已有配置因多余字段无法加载
+ */
+export function validateConfigStrict(config: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(config)) {
+        if (!Object.prototype.hasOwnProperty.call(CONFIG_FIELD_TYPES, key)) {
+            throw new Error(`Unknown field in podcast.json: ${key}`);
+        }
+        const allowed = CONFIG_FIELD_TYPES[key as keyof PodcastConfig];
+        if (!allowed.includes(getValueType(value) as ConfigValueType)) {
+            throw new Error(`${key} in podcast.json must be ${allowed.join(' or ')}`);
+        }
+    }
+    const { titleFormat, episodeNumberStrategy, medium, seasonMode, pubDateStrategy, feedLimitOrder } = config;
+    if (titleFormat !== undefined && !['clean', 'full'].includes(titleFormat as string)) {
+        throw new Error('Invalid titleFormat in podcast.json. Must be one of: clean, full');
+    }
+    // 以下字段在 validateConfig 中只在非空时校验，这里空字符串也视为无效
+    for (const [key, value] of Object.entries({ medium, seasonMode, pubDateStrategy, feedLimitOrder })) {
+        if (value === '') {
+            throw new Error(`${key} in podcast.json must not be empty`);
+        }
+    }
+    if (episodeNumberStrategy !== undefined) {
+        validateEpisodeNumberStrategy(episodeNumberStrategy as EpisodeNumberStrategy);
+    }
+    validateConfig(config as PodcastConfig);
+}
+
 export function getConfigWithDefaults(dirPath: string, config: PodcastConfig): Required<PodcastConfig> {
     const dirName = path.basename(dirPath);
 
@@ -80,6 +271,8 @@ export function getConfigWithDefaults(dirPath: string, config: PodcastConfig): R
         ...DEFAULT_CONFIG,
         ...config,
         title: config.title || dirName,
-        description: config.description || dirName
+        description: config.description || dirName,
+        // 兼容旧配置：只设置了 useMTime 时使用文件修改时间
+        pubDateStrategy: config.pubDateStrategy || (config.useMTime ? 'mtime' : DEFAULT_CONFIG.pubDateStrategy)
     };
 }
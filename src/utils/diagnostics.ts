@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface Diagnostic {
+    level: 'warning' | 'error';
+    message: string;
+    file?: string;  // 相关文件的绝对路径
+}
+
+// 正在处理的播客源收集到的问题；扫描中各模块通过 reportWarning 上报，不需要逐层传参
+const currentIssues = new AsyncLocalStorage<Diagnostic[]>();
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function record(issue: Diagnostic): void {
+    const issues = currentIssues.getStore();
+    // 同一文件可能在排序、生成 feed 时多次触发同一警告
+    if (issues && !issues.some(i => i.level === issue.level && i.message === issue.message && i.file === issue.file)) {
+        issues.push(issue);
+    }
+}
+
+/** 打印警告，并记录到当前播客源的诊断信息中（在 collectDiagnostics 之外调用时只打印） */
+export function reportWarning(message: string, file?: string, error?: unknown): void {
+    if (error === undefined) {
+        console.warn(message);
+    } else {
+        console.warn(message, error);
+    }
+    record({
+        level: 'warning',
+        message: error === undefined ? message : `${message} ${describeError(error)}`,
+        file
+    });
+}
+
+/**
+ * 执行一个播客源的处理任务，收集期间上报的警告；任务抛出的异常记为 error，不再向外抛出
+ */
+export async function collectDiagnostics<T>(task: () => Promise<T>): Promise<{ result?: T; failed: boolean; issues: Diagnostic[] }> {
+    const issues: Diagnostic[] = [];
+    try {
+        const result = await currentIssues.run(issues, task);
+        return { result, failed: false, issues };
+    } catch (error) {
+        issues.push({ level: 'error', message: describeError(error) });
+        return { failed: true, issues };
+    }
+}
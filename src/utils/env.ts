@@ -1,8 +1,16 @@
 import path from 'path';
 
+// 媒体库根目录：name 用于区分来源（虚拟 feed 可按根目录筛选），path 下的每个一级子目录是一个播客
+export interface LibraryRoot {
+    name: string;
+    path: string;
+}
+
 export interface EnvConfig {
-    // 音频文件夹路径
+    // 音频文件夹路径（多个根目录时为第一个）
     AUDIO_DIR: string;
+    // 全部媒体库根目录，来自 AUDIO_ROOTS，未设置时只有 AUDIO_DIR
+    AUDIO_ROOTS: LibraryRoot[];
     // 服务器端口
     PORT: number;
     // 全局标题显示策略：clean=清理后的标题，full=完整文件名
@@ -27,6 +35,40 @@ export interface EnvConfig {
     REMOTE_COVER_COUNTRY: string;
     REMOTE_COVER_TTL_DAYS: number;
     REMOTE_COVER_TIMEOUT_MS: number;
+
+    // 私有订阅：开启后 feed、音频、封面等都需要访问令牌（见 .auth/tokens.json）
+    AUTH_ENABLED: boolean;
+    // 管理接口（/admin）的口令，未设置时管理接口关闭
+    ADMIN_TOKEN: string;
+    // 管理界面保存的 podcast.json 在音频目录只读时写入此目录
+    CONFIG_OVERRIDES_DIR: string;
+    // 信任的反向代理（Fastify trustProxy）：true、代理层数或代理地址列表；默认不信任 X-Forwarded-For
+    TRUST_PROXY: boolean | number | string;
+}
+
+/**
+ * 解析 AUDIO_ROOTS：逗号分隔的 名称=路径，如 main=/mnt/disk1/audio,archive=/mnt/disk2/audio
+ * 省略名称时使用目录名
+ */
+function parseLibraryRoots(value: string): LibraryRoot[] {
+    return value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const match = entry.match(/^([\w-]+)=(.+)$/);
+            const rootPath = path.resolve(match ? match[2].trim() : entry);
+            return { name: match ? match[1] : path.basename(rootPath), path: rootPath };
+        });
+}
+
+// TRUST_PROXY=true / 1（代理层数）/ 127.0.0.1,10.0.0.0/8（代理地址），未设置或 false 时不信任
+function parseTrustProxy(value: string): boolean | number | string {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed.toLowerCase() === 'false') return false;
+    if (trimmed.toLowerCase() === 'true') return true;
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+    return trimmed;
 }
 
 /**
@@ -41,9 +83,13 @@ export function getEnvConfig(): EnvConfig {
     // 构建默认的基础URL
     const defaultBaseUrl = `http://localhost:${port}`;
 
+    const roots = parseLibraryRoots(process.env.AUDIO_ROOTS || '');
+    // 音频文件夹路径，默认为当前目录下的 audio 文件夹
+    const audioDir = process.env.AUDIO_DIR || defaultAudioDir;
+
     return {
-        // 音频文件夹路径，默认为当前目录下的 audio 文件夹
-        AUDIO_DIR: process.env.AUDIO_DIR || defaultAudioDir,
+        AUDIO_DIR: roots.length > 0 ? roots[0].path : audioDir,
+        AUDIO_ROOTS: roots.length > 0 ? roots : [{ name: 'default', path: path.resolve(audioDir) }],
         // 服务器端口，默认3000
         PORT: port,
         // 标题显示策略，默认为full（完整文件名，不含扩展名）
@@ -59,6 +105,11 @@ export function getEnvConfig(): EnvConfig {
         REMOTE_COVER_PROVIDER: (process.env.REMOTE_COVER_PROVIDER as 'none' | 'itunes') || 'itunes',
         REMOTE_COVER_COUNTRY: process.env.REMOTE_COVER_COUNTRY || 'cn',
         REMOTE_COVER_TTL_DAYS: parseInt(process.env.REMOTE_COVER_TTL_DAYS || '30', 10),
-        REMOTE_COVER_TIMEOUT_MS: parseInt(process.env.REMOTE_COVER_TIMEOUT_MS || '8000', 10)
+        REMOTE_COVER_TIMEOUT_MS: parseInt(process.env.REMOTE_COVER_TIMEOUT_MS || '8000', 10),
+
+        AUTH_ENABLED: (process.env.AUTH_ENABLED || 'false').toLowerCase() === 'true',
+        ADMIN_TOKEN: process.env.ADMIN_TOKEN || '',
+        CONFIG_OVERRIDES_DIR: process.env.CONFIG_OVERRIDES_DIR || path.join(process.cwd(), '.overrides'),
+        TRUST_PROXY: parseTrustProxy(process.env.TRUST_PROXY || '')
     };
 }
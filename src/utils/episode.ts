@@ -2,9 +2,38 @@ import path from 'path';
 import { Episode, PodcastConfig, EpisodeNumberStrategy } from '../types';
 import crypto from 'crypto';
 import fs from 'fs';
+import { EpisodeMarker, findChineseMarker, findCompoundMarker, findRomanMarker, stripMarker } from './numbering';
+import { reportWarning } from './diagnostics';
 
 const BASE_DATE = new Date('2024-12-18T00:00:00.000Z');
 
+// 支持的媒体格式及其 enclosure MIME 类型
+export const MEDIA_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    m4a: 'audio/x-m4a',
+    m4b: 'audio/x-m4b',
+    wav: 'audio/wav',
+    flac: 'audio/flac',
+    ogg: 'audio/ogg',
+    opus: 'audio/opus',
+    aac: 'audio/aac',
+    mp4: 'video/mp4',
+    m4v: 'video/x-m4v',
+    mov: 'video/quicktime'
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(MEDIA_TYPES);
+
+// 统一扩展名写法：去掉开头的点并转为小写
+export function normalizeExtension(ext: string): string {
+    return ext.trim().replace(/^\./, '').toLowerCase();
+}
+
+export function getMediaType(fileName: string): string {
+    const ext = normalizeExtension(path.extname(fileName));
+    return MEDIA_TYPES[ext] || 'application/octet-stream';
+}
+
 // 从文件名开头部分匹配数字
 // 支持 001-标题 / 01｜标题 / 05加餐 / ly01 标题 等（含全角分隔符）
 function findPrefixNumber(fileName: string): number | null {
@@ -62,6 +91,21 @@ function findNumberByPattern(fileName: string, pattern: string): number | null {
     return null;
 }
 
+// 中文数字 / 罗马数字 / 复合序号策略：在去掉扩展名的文件名中查找序号标记
+function findStrategyMarker(fileName: string, strategy?: EpisodeNumberStrategy): EpisodeMarker | null {
+    const nameWithoutExt = fileName.replace(/\.[^/.]+$/, '');
+    switch (strategy) {
+        case 'chinese':
+            return findChineseMarker(nameWithoutExt);
+        case 'roman':
+            return findRomanMarker(nameWithoutExt);
+        case 'compound':
+            return findCompoundMarker(nameWithoutExt);
+        default:
+            return null;
+    }
+}
+
 export function parseEpisodeNumber(fileName: string, config?: PodcastConfig): number | null {
     const strategy = config?.episodeNumberStrategy || 'prefix';
 
@@ -76,6 +120,13 @@ export function parseEpisodeNumber(fileName: string, config?: PodcastConfig): nu
                 return findFirstNumber(fileName);
             case 'last':
                 return findLastNumber(fileName);
+            case 'chinese':
+            case 'roman':
+            case 'compound': {
+                const marker = findStrategyMarker(fileName, strategy);
+                // 没有对应标记时回退到前缀策略（如课程中混有 01加餐.mp3），不含扩展名以免匹配到 mp3 中的数字
+                return marker ? marker.value : findPrefixNumber(fileName.replace(/\.[^/.]+$/, ''));
+            }
             default:
                 console.warn(`Unknown strategy: ${strategy}, falling back to prefix`);
                 return findPrefixNumber(fileName);
@@ -87,7 +138,7 @@ export function parseEpisodeNumber(fileName: string, config?: PodcastConfig): nu
             return result;
         }
         // 如果自定义正则表达式失败，回退到默认策略
-        console.warn(`Custom pattern failed for "${fileName}", falling back to prefix strategy`);
+        reportWarning(`Custom pattern failed for "${fileName}", falling back to prefix strategy`);
         return findPrefixNumber(fileName);
     }
 
@@ -95,10 +146,22 @@ export function parseEpisodeNumber(fileName: string, config?: PodcastConfig): nu
     return findPrefixNumber(fileName);
 }
 
-export function parseEpisodeTitle(fileName: string): string {
+/** 复合序号策略（S02E05 / 3-2）中的季号 */
+export function parseEpisodeSeason(fileName: string, config?: PodcastConfig): number | undefined {
+    if (config?.episodeNumberStrategy !== 'compound') return undefined;
+    return findStrategyMarker(fileName, 'compound')?.season;
+}
+
+export function parseEpisodeTitle(fileName: string, config?: PodcastConfig): string {
     // 移除文件扩展名
     const withoutExt = fileName.replace(/\.[^/.]+$/, '');
 
+    // 中文数字 / 罗马数字 / 复合序号：去掉识别到的标记
+    const marker = findStrategyMarker(fileName, config?.episodeNumberStrategy);
+    if (marker) {
+        return stripMarker(withoutExt, marker);
+    }
+
     // 如果以数字开头，移除开头的数字和分隔符
     if (withoutExt.match(/^\d+/)) {
         return withoutExt.replace(/^(\d+)[-_.\s]*/, '');
@@ -162,8 +225,9 @@ export function createEpisode(
 ): Episode {
     const number = parseEpisodeNumber(fileName, config);
     const title = titleFormat === 'clean' && number !== null
-        ? parseEpisodeTitle(fileName)
+        ? parseEpisodeTitle(fileName, config)
         : fileName.replace(/\.[^/.]+$/, '');
+    const season = parseEpisodeSeason(fileName, config);
 
     const filePath = path.join(dirPath, fileName);
     const { pubDate: metadataPubDate, sortValue } = getFileMetadata(filePath);
@@ -183,14 +247,25 @@ export function createEpisode(
         title,
         fileName,
         filePath,
-        pubDate
+        pubDate,
+        ...(season !== undefined ? { season } : {})
     };
 }
 
-export function validateFileName(fileName: string): boolean {
-    // 检查是否是支持的音频格式
-    const supportedFormats = /\.(mp3|m4a|wav)$/i;
-    return supportedFormats.test(fileName);
+export function validateFileName(fileName: string, config?: PodcastConfig): boolean {
+    // 检查是否是支持的媒体格式
+    const ext = normalizeExtension(path.extname(fileName));
+    if (!ext || !(ext in MEDIA_TYPES)) {
+        return false;
+    }
+
+    // podcast.json 中的扩展名白名单/黑名单
+    const include = (config?.includeExtensions || []).map(normalizeExtension);
+    const exclude = (config?.excludeExtensions || []).map(normalizeExtension);
+    if (include.length > 0 && !include.includes(ext)) {
+        return false;
+    }
+    return !exclude.includes(ext);
 }
 
 // 直接运行测试
@@ -225,4 +300,26 @@ if (require.main === module) {
             console.log('-'.repeat(20));
         });
     });
+
+    // 中文数字 / 罗马数字 / 复合序号
+    const markerFiles = {
+        chinese: ['第十二讲 数据结构.mp3', '第一百零三期：回顾.mp3', '第十二讲（上）递归.mp3', '十二、总结.mp3'],
+        roman: ['Part IV - The End.mp3', 'Chapter XII.mp3', '第IV章 风云.mp3'],
+        compound: ['S02E05 Pilot.mp3', '3-2 标题.mp3', '第三季第五集 大结局.mp3']
+    } as const;
+
+    Object.entries(markerFiles).forEach(([strategy, files]) => {
+        console.log(`\n测试 ${strategy} 策略：`);
+        console.log('-'.repeat(50));
+
+        const config = { episodeNumberStrategy: strategy as EpisodeNumberStrategy };
+        files.forEach(file => {
+            const number = parseEpisodeNumber(file, config);
+            const season = parseEpisodeSeason(file, config);
+            console.log(`文件: ${file}`);
+            console.log(`提取的序号: ${number === null ? '无序号' : number}${season !== undefined ? `（第 ${season} 季）` : ''}`);
+            console.log(`标题: ${parseEpisodeTitle(file, config)}`);
+            console.log('-'.repeat(20));
+        });
+    });
 }
\ No newline at end of file
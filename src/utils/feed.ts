@@ -1,8 +1,16 @@
 import { Feed } from 'feed';
+import { Extension } from 'feed/lib/typings';
+import convert from 'xml-js';
 import path from 'path';
 import fs from 'fs-extra';
-import { PodcastSource, ProcessOptions } from '../types';
+import { Episode, FeedFormat, PodcastSource, ProcessOptions } from '../types';
 import { getEnvConfig } from './env';
+import { formatDuration } from './metadata';
+import { getReleasedEpisodes } from './schedule';
+import { getMediaType } from './episode';
+import { PODCAST_NAMESPACE_URL, buildChannelTags, buildItemTags } from './podcasting';
+import { Transcript, findTranscripts, readTranscriptSegments } from './transcript';
+import { reportWarning } from './diagnostics';
 
 function escapeHtml(input: string): string {
     return input
@@ -35,19 +43,109 @@ function formatDate(date: Date): string {
     }
 }
 
-async function findSidecarAttachments(params: {
+// 纯文本简介 -> HTML：空行分段，段内换行保留
+function textToHtml(text: string): string {
+    return text
+        .split(/\n\s*\n/)
+        .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br/>')}</p>`)
+        .join('');
+}
+
+// 文件相对于播客目录的路径，统一使用 / 分隔
+export function getEpisodeRelativePath(source: PodcastSource, filePath: string): string {
+    return path.relative(source.dirPath, filePath).split(path.sep).join('/');
+}
+
+function encodeRelativePath(relativePath: string): string {
+    return relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+// 播客目录内文件的访问 URL，按路径段分别编码以支持季子文件夹
+function getAudioFileUrl(baseUrl: string, source: PodcastSource, filePath: string): string {
+    const relativePath = encodeRelativePath(getEpisodeRelativePath(source, filePath));
+    return `${baseUrl}/audio/${encodeURIComponent(source.dirName)}/${relativePath}`;
+}
+
+// Podcasting 2.0 章节 JSON 的地址，由 server 的 /chapters 路由提供
+function getChaptersUrl(baseUrl: string, source: PodcastSource, episode: Episode): string {
+    const relativePath = encodeRelativePath(getEpisodeRelativePath(source, episode.filePath));
+    return `${baseUrl}/chapters/${encodeURIComponent(source.dirName)}/${relativePath}.json`;
+}
+
+// JSON 转录转换为 Podcasting 2.0 格式后的地址，由 server 的 /transcripts 路由提供
+function getTranscriptUrl(baseUrl: string, source: PodcastSource, filePath: string): string {
+    const relativePath = encodeRelativePath(getEpisodeRelativePath(source, filePath));
+    return `${baseUrl}/transcripts/${encodeURIComponent(source.dirName)}/${relativePath}`;
+}
+
+// 单集封面：覆盖中的 image 为 http(s) 地址时直接使用，否则视为相对音频所在文件夹的路径
+function getEpisodeImageUrl(baseUrl: string, source: PodcastSource, episode: Episode): string | undefined {
+    const image = episode.override?.image;
+    if (!image) return undefined;
+    if (/^https?:\/\//.test(image)) return image;
+    return getAudioFileUrl(baseUrl, source, path.resolve(path.dirname(episode.filePath), image));
+}
+
+/** 剧集的播放地址；章节虚拟剧集使用媒体片段时间偏移（#t=start,end）定位到原文件中的一段 */
+export function getEpisodeUrl(baseUrl: string, source: PodcastSource, episode: Episode): string {
+    const fileUrl = getAudioFileUrl(baseUrl, source, episode.filePath);
+    return episode.chapter
+        ? `${fileUrl}#t=${[episode.chapter.startTime, episode.chapter.endTime]
+            .filter((t): t is number => t !== undefined)
+            .map(t => Math.round(t * 1000) / 1000)
+            .join(',')}`
+        : fileUrl;
+}
+
+// 章节在原文件中的起止时间，如 00:12:30 - 00:25:00；最后一章没有结束时间
+function formatChapterRange(startTime: number, endTime?: number): string {
+    return endTime !== undefined
+        ? `${formatDuration(startTime)} - ${formatDuration(endTime)}`
+        : `${formatDuration(startTime)} -`;
+}
+
+/** 集号：每季从 1 开始，未分季（如季文件夹之外的预告）单独计数；覆盖中指定的集号优先 */
+export function getEpisodeNumbers(episodes: Episode[]): Map<Episode, number> {
+    const seasonCounters = new Map<number | undefined, number>();
+    const numbers = new Map<Episode, number>();
+    for (const episode of episodes) {
+        const seasonCounter = (seasonCounters.get(episode.season) || 0) + 1;
+        seasonCounters.set(episode.season, seasonCounter);
+        numbers.set(episode, episode.override?.number ?? seasonCounter);
+    }
+    return numbers;
+}
+
+// 章节拆分出的虚拟剧集只播放原文件中的一段
+export function getEpisodeDuration(episode: Episode): number | undefined {
+    if (episode.chapter) {
+        const end = episode.chapter.endTime ?? episode.metadata?.duration;
+        return end !== undefined ? end - episode.chapter.startTime : undefined;
+    }
+    return episode.metadata?.duration;
+}
+
+export interface SidecarAttachment {
+    fileName: string;
+    url: string;
+    kind: 'image' | 'text' | 'pdf' | 'doc' | 'other';
+    inlineText?: string;
+}
+
+/** 与音频同名的附件（讲义、幻灯片、PDF、图片等）；maxTextChars 为 0 时不读取文本内容 */
+export async function findSidecarAttachments(params: {
+    source: PodcastSource;
     dirPath: string;
     audioFileName: string;
     baseUrl: string;
-    dirName: string;
     maxTextChars: number;
-}): Promise<Array<{ fileName: string; url: string; kind: 'image' | 'text' | 'pdf' | 'doc' | 'other'; inlineText?: string }>> {
-    const { dirPath, audioFileName, baseUrl, dirName } = params;
+}): Promise<SidecarAttachment[]> {
+    const { source, dirPath, audioFileName, baseUrl } = params;
     const stem = audioFileName.replace(/\.[^/.]+$/, '');
 
     // Common "sidecar" files stored next to audio (notes, slides, PDFs, cover, etc).
     const exts = ['pdf', 'doc', 'docx', 'epub', 'mobi', 'azw3', 'txt', 'md', 'jpg', 'jpeg', 'png', 'webp'];
-    const results: Array<{ fileName: string; url: string; kind: 'image' | 'text' | 'pdf' | 'doc' | 'other'; inlineText?: string }> = [];
+    const results: SidecarAttachment[] = [];
 
     async function readTextTruncated(fullPath: string, maxChars: number): Promise<string> {
         try {
@@ -72,19 +170,19 @@ async function findSidecarAttachments(params: {
         const candidate = `${stem}.${ext}`;
         const fullPath = path.join(dirPath, candidate);
         if (await fs.pathExists(fullPath)) {
-            const url = `${baseUrl}/audio/${encodeURIComponent(dirName)}/${encodeURIComponent(candidate)}`;
-            let kind: 'image' | 'text' | 'pdf' | 'doc' | 'other' = 'other';
+            const url = getAudioFileUrl(baseUrl, source, fullPath);
+            let kind: SidecarAttachment['kind'] = 'other';
             if (['jpg', 'jpeg', 'png', 'webp'].includes(ext)) kind = 'image';
             else if (['md', 'txt'].includes(ext)) kind = 'text';
             else if (ext === 'pdf') kind = 'pdf';
             else if (['doc', 'docx'].includes(ext)) kind = 'doc';
 
-            const item: { fileName: string; url: string; kind: 'image' | 'text' | 'pdf' | 'doc' | 'other'; inlineText?: string } = {
+            const item: SidecarAttachment = {
                 fileName: candidate,
                 url,
                 kind
             };
-            if (kind === 'text') {
+            if (kind === 'text' && params.maxTextChars > 0) {
                 item.inlineText = await readTextTruncated(fullPath, params.maxTextChars);
             }
             results.push(item);
@@ -94,50 +192,147 @@ async function findSidecarAttachments(params: {
     return results;
 }
 
-async function getFileSize(filePath: string): Promise<number> {
+// 转录渲染为带时间戳的段落：[00:01:02] 说话人：内容
+async function renderTranscriptHtml(transcripts: Transcript[], maxChars: number): Promise<string> {
+    for (const transcript of transcripts) {
+        const segments = await readTranscriptSegments(transcript.filePath);
+        if (!segments?.length) continue;
+
+        const parts: string[] = [];
+        let chars = 0;
+        for (const segment of segments) {
+            if (chars >= maxChars) {
+                parts.push('<p>…</p>');
+                break;
+            }
+            chars += segment.body.length;
+            const speaker = segment.speaker ? `<strong>${escapeHtml(segment.speaker)}</strong>：` : '';
+            parts.push(`<p>[${escapeHtml(formatDuration(segment.startTime))}] ${speaker}${escapeHtml(segment.body)}</p>`);
+        }
+        return `<hr/><p><strong>Transcript</strong> (<a href="${escapeHtml(transcript.url)}">${escapeHtml(transcript.fileName)}</a>)</p>${parts.join('')}`;
+    }
+    return '';
+}
+
+export async function getFileSize(filePath: string): Promise<number> {
     try {
         const stats = await fs.stat(filePath);
         return stats.size;
     } catch (error) {
-        console.warn(`Failed to get file size for ${filePath}:`, error);
+        reportWarning(`Failed to get file size for ${filePath}:`, filePath, error);
         return 0;
     }
 }
 
 // 获取feed文件的存储路径
-export function getFeedStoragePath(source: PodcastSource): string {
+// 各格式 feed 的文件扩展名：/feeds/<dir>.xml、.atom、.json
+export const FEED_EXTENSIONS: Record<FeedFormat, string> = {
+    rss: 'xml',
+    atom: 'atom',
+    json: 'json'
+};
+
+export const FEED_FORMATS = Object.keys(FEED_EXTENSIONS) as FeedFormat[];
+
+export function getFeedStoragePath(source: Pick<PodcastSource, 'dirName'>, format: FeedFormat = 'rss'): string {
     const feedStorageDir = path.join(process.cwd(), '.feeds');
     // 使用文件夹名作为feed文件名，确保唯一性
-    return path.join(feedStorageDir, `${source.dirName}.xml`);
+    return path.join(feedStorageDir, `${source.dirName}.${FEED_EXTENSIONS[format]}`);
+}
+
+/**
+ * feed 的 Last-Modified：最新一集的发布时间（已解锁的剧集中）
+ * 顺序生成的发布时间可能晚于当前时间，不超过 now；没有剧集时为 now
+ */
+export function getFeedLastModified(source: PodcastSource, now: Date = new Date()): Date {
+    const latest = getReleasedEpisodes(source, now)
+        .reduce((max, episode) => Math.max(max, episode.pubDate.getTime()), 0);
+    return new Date(latest > 0 ? Math.min(latest, now.getTime()) : now.getTime());
+}
+
+// 获取feed的URL，分页时第 2 页起带 ?page=
+function getFeedUrl(baseUrl: string, source: PodcastSource, format: FeedFormat = 'rss', page: number = 1): string {
+    const url = `${baseUrl}/feeds/${encodeURIComponent(source.dirName)}.${FEED_EXTENSIONS[format]}`;
+    return page > 1 ? `${url}?page=${page}` : url;
+}
+
+/**
+ * feed 的页数：配置了 feedLimit 时主 feed（第 1 页）只包含 N 集，
+ * 开启 feedPaging 时其余剧集按同样大小依次分页，否则不输出
+ */
+export function getFeedPageCount(source: PodcastSource, now: Date = new Date()): number {
+    const { feedLimit, feedPaging } = source.config;
+    if (!feedLimit || !feedPaging) return 1;
+    return Math.max(1, Math.ceil(getReleasedEpisodes(source, now).length / feedLimit));
+}
+
+// 第 page 页的剧集（页内保持时间顺序）：latest 从最新一集往前分页，first 从第一集往后分页
+function getPageEpisodes(source: PodcastSource, episodes: Episode[], page: number): Episode[] {
+    const { feedLimit, feedLimitOrder } = source.config;
+    if (!feedLimit) return episodes;
+    const start = (page - 1) * feedLimit;
+    if (feedLimitOrder === 'first') {
+        return episodes.slice(start, start + feedLimit);
+    }
+    const end = episodes.length - start;
+    return end > 0 ? episodes.slice(Math.max(0, end - feedLimit), end) : [];
 }
 
-// 获取feed的URL
-function getFeedUrl(baseUrl: string, source: PodcastSource): string {
-    return `${baseUrl}/feeds/${encodeURIComponent(source.dirName)}.xml`;
+interface FeedLink {
+    rel: string;
+    href: string;
+}
+
+/**
+ * RFC 5005 分页链接：first / last / previous / next 供客户端翻页；
+ * 保留最新剧集时，更早的页面即历史归档，另外给出 prev-archive / next-archive / current
+ */
+function getPageLinks(baseUrl: string, source: PodcastSource, format: FeedFormat, page: number, pageCount: number): FeedLink[] {
+    if (pageCount <= 1) return [];
+    const pageUrl = (n: number) => getFeedUrl(baseUrl, source, format, n);
+    const links: FeedLink[] = [
+        { rel: 'first', href: pageUrl(1) },
+        { rel: 'last', href: pageUrl(pageCount) }
+    ];
+    if (page > 1) links.push({ rel: 'previous', href: pageUrl(page - 1) });
+    if (page < pageCount) links.push({ rel: 'next', href: pageUrl(page + 1) });
+
+    if (source.config.feedLimitOrder === 'latest') {
+        if (page < pageCount) links.push({ rel: 'prev-archive', href: pageUrl(page + 1) });
+        if (page > 2) links.push({ rel: 'next-archive', href: pageUrl(page - 1) });
+        if (page > 1) links.push({ rel: 'current', href: pageUrl(1) });
+    }
+    return links;
 }
 
 async function buildEpisodeShownotes(params: {
     source: PodcastSource;
-    episode: { title: string; fileName: string; pubDate: Date };
+    episode: Episode;
     episodeUrl: string;
     fileSizeBytes: number;
     baseUrl: string;
+    transcripts: Transcript[];
     defaultMode: 'title' | 'full';
     inlineAttachments: 'none' | 'images' | 'all';
     inlineTextMaxChars: number;
 }): Promise<{ plain: string; html: string }> {
-    const { source, episode, episodeUrl, fileSizeBytes, baseUrl, defaultMode, inlineAttachments, inlineTextMaxChars } = params;
-    const { config, dirName, dirPath } = source;
+    const { source, episode, episodeUrl, fileSizeBytes, baseUrl, transcripts, defaultMode, inlineAttachments, inlineTextMaxChars } = params;
+    const { config } = source;
+
+    // episodes.json / <stem>.json 中手写的简介
+    const description = episode.override?.description;
 
     if (defaultMode === 'title') {
-        return { plain: episode.title, html: `<p>${escapeHtml(episode.title)}</p>` };
+        return description
+            ? { plain: description, html: textToHtml(description) }
+            : { plain: episode.title, html: `<p>${escapeHtml(episode.title)}</p>` };
     }
 
     const attachments = await findSidecarAttachments({
-        dirPath,
+        source,
+        dirPath: path.dirname(episode.filePath),
         audioFileName: episode.fileName,
         baseUrl,
-        dirName,
         maxTextChars: inlineTextMaxChars
     });
 
@@ -145,21 +340,45 @@ async function buildEpisodeShownotes(params: {
     // so we do NOT dump the long encoded link here (use short markdown/HTML labels).
     const lines: string[] = [];
     lines.push(episode.title);
+    if (description) {
+        lines.push(description);
+    }
     lines.push(`Podcast: ${config.title}`);
     lines.push(`Published: ${formatDate(episode.pubDate)}`);
+    const duration = getEpisodeDuration(episode);
+    if (duration) {
+        lines.push(`Duration: ${formatDuration(duration)}`);
+    }
     lines.push(`Size: ${formatBytes(fileSizeBytes)}`);
+    // 不支持媒体片段（#t=）的客户端会从头播放整个文件，在简介中注明本章在原文件中的起止时间
+    const chapterRange = episode.chapter && formatChapterRange(episode.chapter.startTime, episode.chapter.endTime);
+    if (chapterRange) {
+        lines.push(`Chapter: ${chapterRange}`);
+    }
     // Do NOT embed long URLs in plain text (Snipd etc. show them raw).
     // Playback uses <enclosure>; HTML shownotes use short labels.
     if (attachments.length) {
         lines.push('Attachments: ' + attachments.map(a => a.fileName).join(', '));
     }
+    if (transcripts.length) {
+        lines.push('Transcripts: ' + transcripts.map(t => t.fileName).join(', '));
+    }
 
     const htmlParts: string[] = [];
     htmlParts.push(`<p><strong>${escapeHtml(episode.title)}</strong></p>`);
+    if (description) {
+        htmlParts.push(textToHtml(description));
+    }
     htmlParts.push('<ul>');
     htmlParts.push(`<li><strong>Podcast</strong>: ${escapeHtml(config.title)}</li>`);
     htmlParts.push(`<li><strong>Published</strong>: ${escapeHtml(formatDate(episode.pubDate))}</li>`);
+    if (duration) {
+        htmlParts.push(`<li><strong>Duration</strong>: ${escapeHtml(formatDuration(duration))}</li>`);
+    }
     htmlParts.push(`<li><strong>Size</strong>: ${escapeHtml(formatBytes(fileSizeBytes))}</li>`);
+    if (chapterRange) {
+        htmlParts.push(`<li><strong>Chapter</strong>: ${escapeHtml(chapterRange)}</li>`);
+    }
     if (attachments.length) {
         htmlParts.push('<li><strong>Attachments</strong>:<ul>');
         for (const a of attachments) {
@@ -167,8 +386,21 @@ async function buildEpisodeShownotes(params: {
         }
         htmlParts.push('</ul></li>');
     }
+    if (transcripts.length) {
+        htmlParts.push('<li><strong>Transcripts</strong>: ');
+        htmlParts.push(transcripts.map(t => `<a href="${escapeHtml(t.url)}">${escapeHtml(t.fileName)}</a>`).join(', '));
+        htmlParts.push('</li>');
+    }
     htmlParts.push('</ul>');
 
+    if (episode.chapters?.length) {
+        htmlParts.push('<p><strong>Chapters</strong></p><ol>');
+        for (const chapter of episode.chapters) {
+            htmlParts.push(`<li>${escapeHtml(formatDuration(chapter.startTime))} ${escapeHtml(chapter.title)}</li>`);
+        }
+        htmlParts.push('</ol>');
+    }
+
     // Inline attachments (client-dependent: images and simple text are the most compatible).
     if (attachments.length && inlineAttachments !== 'none') {
         const images = attachments.filter(a => a.kind === 'image');
@@ -197,11 +429,25 @@ async function buildEpisodeShownotes(params: {
         }
     }
 
+    if (transcripts.length && inlineAttachments === 'all') {
+        htmlParts.push(await renderTranscriptHtml(transcripts, inlineTextMaxChars));
+    }
+
     return { plain: lines.join('\n'), html: htmlParts.join('') };
 }
 
-export async function generateFeed(source: PodcastSource, options: ProcessOptions): Promise<string> {
-    const { config, episodes, coverPath } = source;
+// Atom / JSON Feed 需要、但 feed 库的剧集结构中没有的信息，与 feed.items 一一对应
+interface FeedItemMedia {
+    duration?: number;
+    image?: string;
+}
+
+async function buildFeed(source: PodcastSource, options: ProcessOptions, page: number): Promise<{ feed: Feed; media: FeedItemMedia[] }> {
+    const { config, coverPath } = source;
+    // 配置了发布排期时，只输出已解锁的剧集
+    const episodes = getReleasedEpisodes(source);
+    // 只处理本页的剧集，大文件夹不必每次读取全部文件信息
+    const pageEpisodes = getPageEpisodes(source, episodes, page);
     const { baseUrl, defaultCover } = options;
     const env = getEnvConfig();
     const shownotesMode = env.EPISODE_SHOWNOTES || 'full';
@@ -217,20 +463,25 @@ export async function generateFeed(source: PodcastSource, options: ProcessOption
         : (coverPath ? `${baseUrl}/audio/${encodeURIComponent(path.basename(source.dirPath))}/cover.jpg` : defaultCover);
 
     // 获取最新一集的日期作为Feed更新时间
-    const latestEpisode = episodes[episodes.length - 1];
+    const latestEpisode = pageEpisodes[pageEpisodes.length - 1];
     const updateDate = latestEpisode ? latestEpisode.pubDate : new Date();
 
     // 创建Feed实例
     const feed = new Feed({
         title: config.title,
         description: config.description,
-        id: baseUrl,
+        // Atom 的 feed id 需要在各播客间唯一
+        id: getFeedUrl(baseUrl, source),
         link: config.websiteUrl || baseUrl,
         language: config.language,
         copyright: `All rights reserved ${new Date().getFullYear()}, ${config.author}`,
         updated: updateDate,
         generator: 'Folder2Cast',
-        feed: getFeedUrl(baseUrl, source),
+        feed: getFeedUrl(baseUrl, source, 'rss', page),
+        feedLinks: {
+            atom: getFeedUrl(baseUrl, source, 'atom', page),
+            json: getFeedUrl(baseUrl, source, 'json', page)
+        },
         author: {
             name: config.author,
             email: config.email,
@@ -254,7 +505,8 @@ export async function generateFeed(source: PodcastSource, options: ProcessOption
         name: '_namespace',
         objects: {
             'xmlns:itunes': 'http://www.itunes.com/dtds/podcast-1.0.dtd',
-            'xmlns:atom': 'http://www.w3.org/2005/Atom'
+            'xmlns:atom': 'http://www.w3.org/2005/Atom',
+            ...(config.podcastNamespace ? { 'xmlns:podcast': PODCAST_NAMESPACE_URL } : {})
         }
     });
 
@@ -287,21 +539,43 @@ export async function generateFeed(source: PodcastSource, options: ProcessOption
                 'itunes:name': config.author,
                 'itunes:email': config.email
             },
-            'itunes:type': 'serial'
+            // 虚拟 feed 汇总多个播客，按单集（episodic）展示
+            'itunes:type': source.virtual ? 'episodic' : 'serial'
         }
     });
 
+    // Podcasting 2.0 频道标签（guid / locked / medium / person）
+    if (config.podcastNamespace) {
+        feed.addExtension({
+            name: '_podcast',
+            objects: buildChannelTags(source, getFeedUrl(baseUrl, source))
+        });
+    }
+
+    // 集号按全部剧集计数，不受分页影响
+    const episodeNumbers = getEpisodeNumbers(episodes);
+    const media: FeedItemMedia[] = [];
+
     // 添加每个剧集
-    for (let episodeIndex = 0; episodeIndex < episodes.length; episodeIndex++) {
-        const episode = episodes[episodeIndex];
-        const episodeUrl = `${baseUrl}/audio/${encodeURIComponent(source.dirName)}/${encodeURIComponent(episode.fileName)}`;
+    for (const episode of pageEpisodes) {
+        // 虚拟 feed 中的剧集来自其他播客，音频、章节等地址按所属播客生成
+        const origin = source.episodeSources?.get(episode) ?? source;
+        const episodeUrl = getEpisodeUrl(baseUrl, origin, episode);
+        const episodeNumber = episodeNumbers.get(episode) as number;
+        const episodeImage = getEpisodeImageUrl(baseUrl, origin, episode);
         const fileSize = await getFileSize(episode.filePath);
+        const transcripts = await findTranscripts(
+            episode,
+            filePath => getAudioFileUrl(baseUrl, origin, filePath),
+            filePath => getTranscriptUrl(baseUrl, origin, filePath)
+        );
         const shownotes = await buildEpisodeShownotes({
-            source,
+            source: origin,
             episode,
             episodeUrl,
             fileSizeBytes: fileSize,
             baseUrl,
+            transcripts,
             defaultMode: shownotesMode,
             inlineAttachments,
             inlineTextMaxChars
@@ -309,10 +583,13 @@ export async function generateFeed(source: PodcastSource, options: ProcessOption
 
         feed.addItem({
             title: episode.title,
-            id: episodeUrl,
+            // 持久 GUID 不随文件名、路径或 BASE_URL 变化，客户端不会重复下载
+            id: episode.guid ? `urn:uuid:${episode.guid}` : episodeUrl,
+            guid: episode.guid,
             link: episodeUrl,
             // Many clients show "description" as a short preview; keep it readable.
-            description: shownotesMode === 'title' ? episode.title : `${episode.title} (${formatBytes(fileSize)})`,
+            description: episode.override?.description
+                ?? (shownotesMode === 'title' ? episode.title : `${episode.title} (${formatBytes(fileSize)})`),
             // Prefer rich HTML show notes in <content:encoded>.
             content: shownotes.html || `<p>${escapeHtml(episode.title)}</p>`,
             date: episode.pubDate,
@@ -336,31 +613,210 @@ export async function generateFeed(source: PodcastSource, options: ProcessOption
                         'itunes:subtitle': episode.title,
                         // Keep iTunes summary plain text (some clients don't like HTML here).
                         'itunes:summary': shownotes.plain || episode.title,
-                        'itunes:duration': '00:00:00',
-                        'itunes:explicit': config.explicit ? 'yes' : 'no',
-                        'itunes:episodeType': 'full',
-                        'itunes:episode': String(episodeIndex + 1),
-                        'itunes:season': '1'
+                        'itunes:duration': formatDuration(getEpisodeDuration(episode)),
+                        'itunes:explicit': (episode.override?.explicit ?? config.explicit) ? 'yes' : 'no',
+                        'itunes:episodeType': episode.override?.episodeType || 'full',
+                        'itunes:episode': String(episodeNumber),
+                        ...(episodeImage ? { 'itunes:image': { _attr: { href: episodeImage } } } : {}),
+                        ...(episode.season !== undefined ? { 'itunes:season': String(episode.season) } : {})
                     }
-                }
+                },
+                ...(config.podcastNamespace ? [{
+                    name: '_podcast',
+                    objects: buildItemTags({
+                        source: origin,
+                        episode,
+                        episodeNumber,
+                        chaptersUrl: episode.chapters?.length ? getChaptersUrl(baseUrl, origin, episode) : undefined,
+                        transcripts
+                    })
+                }] : [])
             ]
         });
+        media.push({ duration: getEpisodeDuration(episode), image: episodeImage });
+    }
+
+    return { feed, media };
+}
+
+/** 生成同一播客源的 RSS 2.0、Atom 1.0 和 JSON Feed 1.1，page 为分页后的页码（第 1 页即主 feed） */
+export async function generateFeeds(source: PodcastSource, options: ProcessOptions, page: number = 1): Promise<Record<FeedFormat, string>> {
+    const { feed, media } = await buildFeed(source, options, page);
+    const pageCount = getFeedPageCount(source);
+    const links = (format: FeedFormat) => getPageLinks(options.baseUrl, source, format, page, pageCount);
+    return {
+        rss: renderRss2(feed, links('rss')),
+        atom: renderAtom(feed, links('atom')),
+        json: renderJsonFeed(feed, media, links('json'))
+    };
+}
+
+// xml-js compact 格式的节点：属性在 _attributes，文本在 _text，子元素以标签名为键
+interface XmlNode {
+    _attributes?: Record<string, string | number | undefined>;
+    _text?: string;
+    [key: string]: unknown;
+}
+
+interface RssDocument {
+    rss: XmlNode & {
+        channel: XmlNode & { item?: XmlNode[]; 'atom:link'?: XmlNode | XmlNode[] };
+    };
+}
+
+interface AtomDocument {
+    feed: XmlNode & {
+        link?: XmlNode[];
+        entry?: Array<XmlNode & { link?: XmlNode[] }>;
+    };
+}
+
+// 把扩展对象转换为 xml-js compact 格式：字符串 -> _text，_attr -> _attributes
+function toXmlNode(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(toXmlNode);
+    }
+    if (value !== null && typeof value === 'object') {
+        const node: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+            if (key === '_attr' || key === '_attributes') {
+                node._attributes = child;
+            } else if (key.startsWith('_')) {
+                node[key] = child;
+            } else {
+                node[key] = toXmlNode(child);
+            }
+        }
+        return node;
+    }
+    return { _text: String(value) };
+}
+
+function applyExtensions(target: XmlNode, extensions: Extension[] | undefined): void {
+    for (const extension of extensions || []) {
+        if (extension.name === '_declaration') continue;
+        if (extension.name === '_namespace') {
+            target._attributes = { ...target._attributes, ...extension.objects };
+            continue;
+        }
+        for (const [key, value] of Object.entries(extension.objects || {})) {
+            target[key] = toXmlNode(value);
+        }
+    }
+}
+
+/**
+ * feed 库的 rss2() 只会把 extensions 用在 JSON Feed 中，
+ * 这里把频道/剧集上的扩展（iTunes 标签、命名空间等）合并进 RSS 输出
+ */
+function renderRss2(feed: Feed, pageLinks: FeedLink[]): string {
+    const doc = convert.xml2js(feed.rss2(), {
+        compact: true,
+        alwaysArray: ['item']
+    }) as RssDocument;
+    const rss = doc.rss;
+    const channel = rss.channel;
+
+    const namespaces = feed.extensions.filter(e => e.name === '_namespace');
+    applyExtensions(rss, namespaces);
+
+    const items = channel.item || [];
+    delete channel.item;
+    applyExtensions(channel, feed.extensions.filter(e => e.name !== '_namespace'));
+    if (pageLinks.length > 0) {
+        channel['atom:link'] = [
+            ...[channel['atom:link'] || []].flat(),
+            ...pageLinks.map(link => ({ _attributes: { ...link } }))
+        ];
     }
+    // item 放回频道末尾，保持频道级标签在前
+    channel.item = items;
+    feed.items.forEach((entry, index) => {
+        const item = items[index];
+        if (!item) return;
+        if (entry.guid) {
+            item.guid = { _attributes: { isPermaLink: 'false' }, _text: entry.guid };
+        }
+        applyExtensions(item, entry.extensions);
+    });
 
-    // 生成RSS XML
-    return feed.rss2();
-}
-
-function getMediaType(fileName: string): string {
-    const ext = path.extname(fileName).toLowerCase();
-    switch (ext) {
-        case '.mp3':
-            return 'audio/mpeg';
-        case '.m4a':
-            return 'audio/x-m4a';
-        case '.wav':
-            return 'audio/wav';
-        default:
-            return 'audio/mpeg';
+    return convert.js2xml(doc, { compact: true, spaces: 4 });
+}
+
+/**
+ * feed 库的 atom1() 不输出音频，这里为每个 entry 补上 rel="enclosure" 链接和 published，
+ * 并把 self 链接指向 Atom 地址
+ */
+function renderAtom(feed: Feed, pageLinks: FeedLink[]): string {
+    const doc = convert.xml2js(feed.atom1(), {
+        compact: true,
+        alwaysArray: ['entry', 'link']
+    }) as AtomDocument;
+    const root = doc.feed;
+
+    for (const link of root.link || []) {
+        if (link._attributes?.rel === 'self' && feed.options.feedLinks?.atom) {
+            link._attributes.href = feed.options.feedLinks.atom;
+        }
     }
+    root.link = [...(root.link || []), ...pageLinks.map(link => ({ _attributes: { ...link } }))];
+
+    const entries = root.entry || [];
+    feed.items.forEach((item, index) => {
+        const entry = entries[index];
+        if (!entry) return;
+        if (item.enclosure) {
+            entry.link = entry.link || [];
+            entry.link.push({
+                _attributes: {
+                    rel: 'enclosure',
+                    href: item.enclosure.url,
+                    type: item.enclosure.type,
+                    length: String(item.enclosure.length ?? 0)
+                }
+            });
+        }
+        entry.published = { _text: item.date.toISOString() };
+    });
+
+    return convert.js2xml(doc, { compact: true, spaces: 4 });
+}
+
+/** JSON Feed 1.1：音频作为 attachments，单集封面作为 image，分页时 next_url 指向下一页 */
+function renderJsonFeed(feed: Feed, media: FeedItemMedia[], pageLinks: FeedLink[]): string {
+    const { options } = feed;
+    const author = options.author
+        ? [{ name: options.author.name, ...(options.author.link ? { url: options.author.link } : {}) }]
+        : undefined;
+
+    return JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: options.title,
+        home_page_url: options.link,
+        feed_url: options.feedLinks?.json,
+        next_url: pageLinks.find(link => link.rel === 'next')?.href,
+        description: options.description,
+        icon: options.image,
+        authors: author,
+        language: options.language,
+        items: feed.items.map((item, index) => {
+            const { duration, image } = media[index] || {};
+            return {
+                id: item.id || item.link,
+                url: item.link,
+                title: item.title,
+                content_html: item.content,
+                summary: item.description,
+                image,
+                date_published: item.date.toISOString(),
+                authors: author,
+                attachments: item.enclosure ? [{
+                    url: item.enclosure.url,
+                    mime_type: item.enclosure.type,
+                    size_in_bytes: item.enclosure.length,
+                    ...(duration ? { duration_in_seconds: Math.round(duration) } : {})
+                }] : []
+            };
+        })
+    }, null, 4);
 }
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// 各类资源的缓存策略：feed 变化较频繁但可以用 ETag 便宜地重新验证，音频和封面基本不变
+export const CACHE_CONTROL = {
+    feed: 'public, max-age=300',
+    audio: 'public, max-age=604800',
+    cover: 'public, max-age=86400',
+    api: 'no-cache'
+};
+
+// 私有订阅时，带令牌的响应只允许客户端自己缓存，不能被共享缓存（CDN / 代理）保存
+export function privateCacheControl(value: string): string {
+    return value.replace(/^public\b/, 'private');
+}
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+// 太小的响应压缩后收益不大
+const MIN_COMPRESS_BYTES = 1024;
+
+const COMPRESSIBLE_TYPES = /^(text\/|application\/(json|feed\+json|xml|rss\+xml|atom\+xml|javascript|json\+chapters)|image\/svg\+xml)/;
+
+/** 由内容计算强 ETag */
+export function createEntityTag(content: string): string {
+    return `"${crypto.createHash('sha1').update(content).digest('base64url')}"`;
+}
+
+// 去掉弱标记和压缩后缀（"abc-gzip" -> "abc"），同一内容的各种编码视为相同版本
+function normalizeEntityTag(tag: string): string {
+    return tag.trim().replace(/^W\//, '').replace(/-(gzip|br)"$/, '"');
+}
+
+/**
+ * 条件请求：有 If-None-Match 时只比较 ETag，否则比较 If-Modified-Since（HTTP 日期精确到秒）
+ * 命中时返回 true，应回复 304
+ */
+export function isNotModified(request: FastifyRequest, etag: string, lastModified: Date): boolean {
+    const ifNoneMatch = request.headers['if-none-match'];
+    if (ifNoneMatch) {
+        const expected = normalizeEntityTag(etag);
+        return ifNoneMatch.split(',').some(tag => tag.trim() === '*' || normalizeEntityTag(tag) === expected);
+    }
+
+    const ifModifiedSince = request.headers['if-modified-since'];
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+    }
+    return false;
+}
+
+// 按 Accept-Encoding 选择压缩方式，优先 br，q=0 表示不接受
+function negotiateEncoding(acceptEncoding: string | string[] | undefined): 'br' | 'gzip' | null {
+    const accepted = new Map<string, number>();
+    for (const part of [acceptEncoding || ''].flat().join(',').split(',')) {
+        const [name, ...params] = part.trim().toLowerCase().split(';');
+        if (!name) continue;
+        const q = params.map(p => p.trim().match(/^q=([\d.]+)$/)).find(Boolean);
+        accepted.set(name, q ? parseFloat(q[1]) : 1);
+    }
+    const quality = (name: string) => accepted.get(name) ?? accepted.get('*') ?? 0;
+    if (quality('br') > 0 && quality('br') >= quality('gzip')) return 'br';
+    if (quality('gzip') > 0) return 'gzip';
+    return null;
+}
+
+function appendVary(reply: FastifyReply, field: string): void {
+    const vary = String(reply.getHeader('vary') || '');
+    if (!vary.split(',').some(v => v.trim().toLowerCase() === field.toLowerCase())) {
+        reply.header('vary', vary ? `${vary}, ${field}` : field);
+    }
+}
+
+/**
+ * onSend 钩子：按 Accept-Encoding 对文本类响应（feed、JSON、网页资源）进行 br / gzip 压缩
+ * 音频、图片等二进制内容和范围请求保持原样
+ */
+export async function compressPayload(request: FastifyRequest, reply: FastifyReply, payload: unknown): Promise<unknown> {
+    if (request.method === 'HEAD' || reply.statusCode !== 200 || !payload || reply.getHeader('content-encoding')) {
+        return payload;
+    }
+    if (!COMPRESSIBLE_TYPES.test(String(reply.getHeader('content-type') || ''))) {
+        return payload;
+    }
+
+    appendVary(reply, 'Accept-Encoding');
+    const encoding = negotiateEncoding(request.headers['accept-encoding']);
+    if (!encoding) return payload;
+
+    const etag = reply.getHeader('etag');
+    const markEncoded = () => {
+        reply.header('content-encoding', encoding);
+        reply.removeHeader('content-length');
+        reply.removeHeader('accept-ranges');
+        // 强 ETag 需要区分不同编码的表示
+        if (typeof etag === 'string' && etag.startsWith('"')) {
+            reply.header('etag', `${etag.slice(0, -1)}-${encoding}"`);
+        }
+    };
+
+    if (typeof payload === 'string' || Buffer.isBuffer(payload)) {
+        if (Buffer.byteLength(payload) < MIN_COMPRESS_BYTES) return payload;
+        const compressed = encoding === 'br'
+            ? await brotliCompress(payload, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+            : await gzip(payload);
+        markEncoded();
+        return compressed;
+    }
+
+    // 静态文件以流的形式返回
+    const stream = payload as NodeJS.ReadableStream;
+    if (typeof stream.pipe === 'function') {
+        const length = Number(reply.getHeader('content-length'));
+        if (length > 0 && length < MIN_COMPRESS_BYTES) return payload;
+        markEncoded();
+        return stream.pipe(encoding === 'br'
+            ? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+            : zlib.createGzip());
+    }
+    return payload;
+}
@@ -0,0 +1,81 @@
+import path from 'path';
+import { Episode, PodcastSource } from '../types';
+import { SidecarAttachment, findSidecarAttachments, getEpisodeDuration, getEpisodeNumbers, getEpisodeRelativePath, getEpisodeUrl, getFileSize } from './feed';
+import { getReleasedEpisodes } from './schedule';
+import { getMediaType } from './episode';
+
+export interface EpisodeListing {
+    id: string;            // 持久 GUID，没有时为相对路径；网页播放器以此保存播放进度
+    title: string;
+    number: number;
+    season?: number;
+    seasonName?: string;
+    pubDate: Date;
+    duration?: number;     // 秒
+    size: number;          // 字节
+    url: string;           // 站内相对地址 /audio/...
+    mediaType: string;
+    description?: string;
+    attachments: Array<Omit<SidecarAttachment, 'inlineText'>>;
+}
+
+interface EpisodeFiles {
+    size: number;
+    attachments: Array<Omit<SidecarAttachment, 'inlineText'>>;
+}
+
+// 文件大小和附件需要访问磁盘，按剧集缓存；重新扫描后剧集对象会被替换，缓存随之失效
+const filesCache = new WeakMap<Episode, Promise<EpisodeFiles>>();
+
+function getEpisodeFiles(source: PodcastSource, episode: Episode): Promise<EpisodeFiles> {
+    let files = filesCache.get(episode);
+    if (!files) {
+        files = (async () => ({
+            size: await getFileSize(episode.filePath),
+            attachments: await findSidecarAttachments({
+                source,
+                dirPath: path.dirname(episode.filePath),
+                audioFileName: episode.fileName,
+                baseUrl: '',
+                maxTextChars: 0
+            })
+        }))();
+        filesCache.set(episode, files);
+    }
+    return files;
+}
+
+/** 剧集 id：持久 GUID，没有时为相对路径（章节拆分的剧集加上 #章节序号） */
+export function getEpisodeId(source: PodcastSource, episode: Episode): string {
+    if (episode.guid) return episode.guid;
+    const relativePath = getEpisodeRelativePath(source, episode.filePath);
+    return episode.chapter ? `${relativePath}#${episode.chapter.index}` : relativePath;
+}
+
+/** 网页剧集列表：已解锁的剧集（按 feed 中的顺序），地址均为站内相对路径 */
+export async function listEpisodes(source: PodcastSource): Promise<EpisodeListing[]> {
+    const episodes = getReleasedEpisodes(source);
+    const numbers = getEpisodeNumbers(episodes);
+    const listings: EpisodeListing[] = [];
+
+    for (const episode of episodes) {
+        // 虚拟 feed 中的剧集按所属播客生成地址
+        const origin = source.episodeSources?.get(episode) ?? source;
+        const { size, attachments } = await getEpisodeFiles(origin, episode);
+        listings.push({
+            id: getEpisodeId(origin, episode),
+            title: episode.title,
+            number: numbers.get(episode) as number,
+            season: episode.season,
+            seasonName: episode.seasonName,
+            pubDate: episode.pubDate,
+            duration: getEpisodeDuration(episode),
+            size,
+            url: getEpisodeUrl('', origin, episode),
+            mediaType: getMediaType(episode.fileName),
+            description: episode.override?.description,
+            attachments
+        });
+    }
+    return listings;
+}
@@ -0,0 +1,43 @@
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader } from './reader';
+
+// ADTS 没有总帧数信息：抽样开头的若干帧求平均帧长，再按文件大小估算时长
+const SAMPLE_BYTES = 256 * 1024;
+const SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const SAMPLES_PER_FRAME = 1024;
+
+/** ADTS 封装的裸 AAC（.aac） */
+export async function parseAac(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    // 跳过可能存在的 ID3v2 标签；带封面的标签可能比抽样窗口还大，抽样从标签之后开始读取
+    const header = await reader.read(0, 10);
+    let audioStart = 0;
+    if (header.length >= 10 && header.toString('latin1', 0, 3) === 'ID3') {
+        const tagSize = ((header[6] & 0x7f) << 21) | ((header[7] & 0x7f) << 14) | ((header[8] & 0x7f) << 7) | (header[9] & 0x7f);
+        // 标志位 0x10 表示标签末尾还有 10 字节的 footer
+        audioStart = 10 + tagSize + (header[5] & 0x10 ? 10 : 0);
+    }
+    const buf = await reader.read(audioStart, SAMPLE_BYTES);
+
+    let offset = 0;
+    let frames = 0;
+    let bytes = 0;
+    let sampleRate = 0;
+    while (offset + 7 <= buf.length) {
+        if (buf[offset] !== 0xff || (buf[offset + 1] & 0xf6) !== 0xf0) break;
+        const rateIndex = (buf[offset + 2] >> 2) & 0x0f;
+        const frameLength = ((buf[offset + 3] & 0x03) << 11) | (buf[offset + 4] << 3) | (buf[offset + 5] >> 5);
+        if (frameLength < 7 || rateIndex >= SAMPLE_RATES.length) break;
+        sampleRate = SAMPLE_RATES[rateIndex];
+        frames += 1;
+        bytes += frameLength;
+        offset += frameLength;
+    }
+
+    if (frames === 0 || sampleRate === 0) return metadata;
+
+    const totalFrames = (reader.size - audioStart) / (bytes / frames);
+    metadata.duration = totalFrames * SAMPLES_PER_FRAME / sampleRate;
+    metadata.bitrate = Math.round((reader.size - audioStart) * 8 / metadata.duration / 1000);
+    return metadata;
+}
@@ -0,0 +1,43 @@
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader } from './reader';
+import { parseVorbisComment } from './vorbis';
+
+const BLOCK_STREAMINFO = 0;
+const BLOCK_VORBIS_COMMENT = 4;
+
+export async function parseFlac(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    const magic = await reader.read(0, 4);
+    if (magic.toString('latin1') !== 'fLaC') return metadata;
+
+    // 元数据块：1 字节（最后一块标记 + 类型）+ 3 字节长度
+    let position = 4;
+    while (position + 4 <= reader.size) {
+        const header = await reader.read(position, 4);
+        if (header.length < 4) break;
+        const isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = header.readUIntBE(1, 3);
+        const body = position + 4;
+
+        if (type === BLOCK_STREAMINFO) {
+            const info = await reader.read(body, length);
+            if (info.length >= 18) {
+                // 采样率 20 位 + 声道 3 位 + 位深 5 位 + 总采样数 36 位
+                const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+                const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+                if (sampleRate > 0 && totalSamples > 0) {
+                    metadata.duration = totalSamples / sampleRate;
+                    metadata.bitrate = Math.round(reader.size * 8 / metadata.duration / 1000);
+                }
+            }
+        } else if (type === BLOCK_VORBIS_COMMENT) {
+            parseVorbisComment(await reader.read(body, length), metadata);
+        }
+
+        if (isLast) break;
+        position = body + length;
+    }
+
+    return metadata;
+}
@@ -0,0 +1,125 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader } from './reader';
+import { parseMp3 } from './mp3';
+import { parseMp4 } from './mp4';
+import { parseWav } from './wav';
+import { parseFlac } from './flac';
+import { parseOgg } from './ogg';
+import { parseAac } from './aac';
+import { reportWarning } from '../diagnostics';
+
+// 缓存格式版本：解析逻辑变化时递增，旧缓存自动失效
+const CACHE_VERSION = 2;
+
+interface CacheEntry {
+    size: number;
+    mtimeMs: number;
+    metadata: AudioMetadata;
+}
+
+interface CacheFile {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+let cache: Map<string, CacheEntry> | null = null;
+let cacheDirty = false;
+
+function getMetadataCachePath(): string {
+    return path.join(process.cwd(), '.metadata', 'cache.json');
+}
+
+async function loadCache(): Promise<Map<string, CacheEntry>> {
+    if (cache) return cache;
+    cache = new Map();
+    try {
+        const data = await fs.readJSON(getMetadataCachePath()) as CacheFile;
+        if (data.version === CACHE_VERSION && data.entries) {
+            for (const [filePath, entry] of Object.entries(data.entries)) {
+                cache.set(filePath, entry);
+            }
+        }
+    } catch {
+        // 缓存不存在或损坏时从空缓存开始
+    }
+    return cache;
+}
+
+/** 把内存中的缓存写回磁盘（仅在有变化时） */
+export async function flushMetadataCache(): Promise<void> {
+    if (!cache || !cacheDirty) return;
+    const data: CacheFile = {
+        version: CACHE_VERSION,
+        entries: Object.fromEntries(cache)
+    };
+    const cachePath = getMetadataCachePath();
+    await fs.ensureDir(path.dirname(cachePath));
+    await fs.writeJSON(cachePath, data);
+    cacheDirty = false;
+}
+
+async function parseFile(filePath: string): Promise<AudioMetadata> {
+    const ext = path.extname(filePath).toLowerCase();
+    const reader = await BinaryFileReader.open(filePath);
+    try {
+        switch (ext) {
+            case '.mp3':
+                return await parseMp3(reader);
+            case '.m4a':
+            case '.m4b':
+            case '.mp4':
+            case '.m4v':
+            case '.mov':
+                return await parseMp4(reader);
+            case '.wav':
+                return await parseWav(reader);
+            case '.flac':
+                return await parseFlac(reader);
+            case '.ogg':
+            case '.opus':
+                return await parseOgg(reader);
+            case '.aac':
+                return await parseAac(reader);
+            default:
+                return {};
+        }
+    } finally {
+        await reader.close();
+    }
+}
+
+/**
+ * 读取音频文件的时长、码率和标签信息
+ * 结果按 路径+大小+修改时间 缓存，文件未变化时不会重新解析
+ */
+export async function readAudioMetadata(filePath: string): Promise<AudioMetadata> {
+    const entries = await loadCache();
+    const stat = await fs.stat(filePath);
+    const cached = entries.get(filePath);
+    if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+        return cached.metadata;
+    }
+
+    try {
+        const metadata = await parseFile(filePath);
+        entries.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, metadata });
+        cacheDirty = true;
+        return metadata;
+    } catch (error) {
+        // 解析失败的结果不缓存，下次扫描时重试并再次报告
+        reportWarning(`Failed to read audio metadata for ${filePath}:`, filePath, error);
+        return {};
+    }
+}
+
+/** 秒数 -> HH:MM:SS（itunes:duration 格式） */
+export function formatDuration(seconds?: number): string {
+    if (!seconds || !Number.isFinite(seconds) || seconds <= 0) return '00:00:00';
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    return [h, m, s].map(n => String(n).padStart(2, '0')).join(':');
+}
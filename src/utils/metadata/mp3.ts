@@ -0,0 +1,229 @@
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader, trimText, parseTrackNumber } from './reader';
+
+// 帧头查找窗口：部分文件在 ID3 标签后有填充或垃圾数据
+const SYNC_SEARCH_BYTES = 64 * 1024;
+
+// [version][layer] -> kbps 表，下标为 bitrate index
+const BITRATES: Record<string, number[]> = {
+    'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const SAMPLE_RATES: Record<number, number[]> = {
+    1: [44100, 48000, 32000],     // MPEG 1
+    2: [22050, 24000, 16000],     // MPEG 2
+    25: [11025, 12000, 8000]      // MPEG 2.5
+};
+
+interface FrameHeader {
+    version: 1 | 2 | 25;
+    layer: 1 | 2 | 3;
+    bitrate: number;      // kbps
+    sampleRate: number;
+    samplesPerFrame: number;
+    mono: boolean;
+}
+
+function syncSafe(buf: Buffer, offset: number): number {
+    return ((buf[offset] & 0x7f) << 21) | ((buf[offset + 1] & 0x7f) << 14)
+        | ((buf[offset + 2] & 0x7f) << 7) | (buf[offset + 3] & 0x7f);
+}
+
+function decodeId3Text(data: Buffer): string {
+    if (data.length === 0) return '';
+    const encoding = data[0];
+    const body = data.subarray(1);
+    switch (encoding) {
+        case 1: {
+            // UTF-16 with BOM
+            if (body.length >= 2 && body[0] === 0xfe && body[1] === 0xff) {
+                return trimText(swapUtf16(body.subarray(2)).toString('utf16le'));
+            }
+            const start = body.length >= 2 && body[0] === 0xff && body[1] === 0xfe ? 2 : 0;
+            return trimText(body.subarray(start).toString('utf16le'));
+        }
+        case 2:
+            return trimText(swapUtf16(body).toString('utf16le'));
+        case 3:
+            return trimText(body.toString('utf8'));
+        default:
+            return trimText(body.toString('latin1'));
+    }
+}
+
+function swapUtf16(buf: Buffer): Buffer {
+    const copy = Buffer.from(buf.subarray(0, buf.length - (buf.length % 2)));
+    return copy.swap16();
+}
+
+// ID3v2.2 使用三字符帧 ID，统一映射到 v2.3/v2.4 的四字符 ID
+const V22_FRAME_IDS: Record<string, string> = {
+    TT2: 'TIT2',
+    TP1: 'TPE1',
+    TAL: 'TALB',
+    TRK: 'TRCK',
+    TYE: 'TYER',
+    TLE: 'TLEN'
+};
+
+function parseId3Frames(tag: Buffer, majorVersion: number): Record<string, string> {
+    const frames: Record<string, string> = {};
+    const idLength = majorVersion === 2 ? 3 : 4;
+    const headerLength = majorVersion === 2 ? 6 : 10;
+    let offset = 0;
+
+    while (offset + headerLength <= tag.length) {
+        const id = tag.toString('latin1', offset, offset + idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) break; // 到达 padding
+
+        let size: number;
+        if (majorVersion === 2) {
+            size = tag.readUIntBE(offset + 3, 3);
+        } else if (majorVersion === 4) {
+            size = syncSafe(tag, offset + 4);
+        } else {
+            size = tag.readUInt32BE(offset + 4);
+        }
+        if (size <= 0 || offset + headerLength + size > tag.length) break;
+
+        const frameId = majorVersion === 2 ? (V22_FRAME_IDS[id] || id) : id;
+        if (frameId.startsWith('T') && !(frameId in frames)) {
+            frames[frameId] = decodeId3Text(tag.subarray(offset + headerLength, offset + headerLength + size));
+        }
+        offset += headerLength + size;
+    }
+
+    return frames;
+}
+
+function parseFrameHeader(buf: Buffer, offset: number): FrameHeader | null {
+    if (offset + 4 > buf.length) return null;
+    if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (buf[offset + 1] >> 3) & 0x03;
+    const layerBits = (buf[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = (buf[offset + 2] >> 4) & 0x0f;
+    const sampleRateIndex = (buf[offset + 2] >> 2) & 0x03;
+    const channelMode = (buf[offset + 3] >> 6) & 0x03;
+
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 25;
+    const layer = (4 - layerBits) as 1 | 2 | 3;
+    const table = BITRATES[`${version === 1 ? 'V1' : 'V2'}L${layer}`];
+    const samplesPerFrame = layer === 1 ? 384 : layer === 2 ? 1152 : version === 1 ? 1152 : 576;
+
+    return {
+        version,
+        layer,
+        bitrate: table[bitrateIndex],
+        sampleRate: SAMPLE_RATES[version][sampleRateIndex],
+        samplesPerFrame,
+        mono: channelMode === 3
+    };
+}
+
+function findFirstFrame(buf: Buffer): { offset: number; header: FrameHeader } | null {
+    for (let i = 0; i + 4 <= buf.length; i++) {
+        if (buf[i] !== 0xff) continue;
+        const header = parseFrameHeader(buf, i);
+        if (header) return { offset: i, header };
+    }
+    return null;
+}
+
+// Xing/Info（LAME 等 VBR 编码器）与 VBRI（Fraunhofer）头都位于第一帧内
+function readVbrHeader(frame: Buffer, header: FrameHeader): { frames?: number; bytes?: number } | null {
+    const sideInfo = header.version === 1
+        ? (header.mono ? 17 : 32)
+        : (header.mono ? 9 : 17);
+    const xingOffset = 4 + sideInfo;
+    const tag = frame.toString('latin1', xingOffset, xingOffset + 4);
+    if ((tag === 'Xing' || tag === 'Info') && frame.length >= xingOffset + 16) {
+        const flags = frame.readUInt32BE(xingOffset + 4);
+        let pos = xingOffset + 8;
+        const result: { frames?: number; bytes?: number } = {};
+        if (flags & 0x01) {
+            result.frames = frame.readUInt32BE(pos);
+            pos += 4;
+        }
+        if (flags & 0x02) {
+            result.bytes = frame.readUInt32BE(pos);
+        }
+        return result;
+    }
+
+    if (frame.length >= 36 + 18 && frame.toString('latin1', 36, 40) === 'VBRI') {
+        return {
+            bytes: frame.readUInt32BE(36 + 10),
+            frames: frame.readUInt32BE(36 + 14)
+        };
+    }
+
+    return null;
+}
+
+export async function parseMp3(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    let audioStart = 0;
+    let tagDuration: number | undefined;
+
+    const id3Header = await reader.read(0, 10);
+    if (id3Header.length === 10 && id3Header.toString('latin1', 0, 3) === 'ID3') {
+        const majorVersion = id3Header[3];
+        const flags = id3Header[5];
+        const tagSize = syncSafe(id3Header, 6);
+        audioStart = 10 + tagSize + (flags & 0x10 ? 10 : 0);
+
+        let tag = await reader.read(10, tagSize);
+        // 跳过扩展头
+        if (flags & 0x40 && majorVersion >= 3 && tag.length >= 4) {
+            const extSize = majorVersion === 4 ? syncSafe(tag, 0) : tag.readUInt32BE(0) + 4;
+            tag = tag.subarray(extSize);
+        }
+
+        const frames = parseId3Frames(tag, majorVersion);
+        metadata.title = frames.TIT2 || undefined;
+        metadata.artist = frames.TPE1 || undefined;
+        metadata.album = frames.TALB || undefined;
+        metadata.track = parseTrackNumber(frames.TRCK);
+        metadata.date = frames.TDRC || frames.TYER || undefined;
+        if (frames.TLEN) {
+            const ms = parseInt(frames.TLEN, 10);
+            if (Number.isFinite(ms) && ms > 0) tagDuration = ms / 1000;
+        }
+    }
+
+    const head = await reader.read(audioStart, SYNC_SEARCH_BYTES);
+    const first = findFirstFrame(head);
+    if (!first) {
+        if (tagDuration) metadata.duration = tagDuration;
+        return metadata;
+    }
+
+    const { header } = first;
+    const frameStart = audioStart + first.offset;
+    const vbr = readVbrHeader(head.subarray(first.offset), header);
+
+    if (vbr?.frames) {
+        const duration = vbr.frames * header.samplesPerFrame / header.sampleRate;
+        metadata.duration = duration;
+        const bytes = vbr.bytes || (reader.size - frameStart);
+        metadata.bitrate = Math.round(bytes * 8 / duration / 1000);
+    } else {
+        // CBR：按首帧码率估算；末尾的 ID3v1 标签不计入音频数据
+        const tail = reader.size >= 128 ? await reader.read(reader.size - 128, 3) : Buffer.alloc(0);
+        const audioBytes = reader.size - frameStart - (tail.toString('latin1') === 'TAG' ? 128 : 0);
+        metadata.bitrate = header.bitrate;
+        metadata.duration = tagDuration || audioBytes * 8 / (header.bitrate * 1000);
+    }
+
+    return metadata;
+}
@@ -0,0 +1,312 @@
+import { AudioMetadata, Chapter } from '../../types';
+import { BinaryFileReader, trimText, fillChapterEndTimes } from './reader';
+
+// moov 通常只有几百 KB，带章节/封面的有声书可能到几 MB；超过上限视为异常文件
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+// 章节轨最多读取的样本（章节）数，防止损坏文件中的计数耗尽内存
+const MAX_CHAPTER_SAMPLES = 10000;
+
+export interface Mp4Atom {
+    type: string;
+    // 不含 atom 头的数据
+    data: Buffer;
+}
+
+/** 遍历 buffer 中相邻的 atom */
+export function* iterateAtoms(buf: Buffer): Generator<Mp4Atom> {
+    let offset = 0;
+    while (offset + 8 <= buf.length) {
+        let size = buf.readUInt32BE(offset);
+        const type = buf.toString('latin1', offset + 4, offset + 8);
+        let headerSize = 8;
+        if (size === 1) {
+            if (offset + 16 > buf.length) return;
+            size = Number(buf.readBigUInt64BE(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = buf.length - offset;
+        }
+        if (size < headerSize || offset + size > buf.length) return;
+        yield { type, data: buf.subarray(offset + headerSize, offset + size) };
+        offset += size;
+    }
+}
+
+/** 按路径查找 atom，例如 findAtom(moov, ['udta', 'meta', 'ilst'])；meta 是 full box，跳过 4 字节 version/flags */
+export function findAtom(buf: Buffer, pathParts: string[]): Buffer | null {
+    let current: Buffer = buf;
+    for (const part of pathParts) {
+        let found: Buffer | null = null;
+        for (const atom of iterateAtoms(current)) {
+            if (atom.type === part) {
+                found = atom.type === 'meta' ? atom.data.subarray(4) : atom.data;
+                break;
+            }
+        }
+        if (!found) return null;
+        current = found;
+    }
+    return current;
+}
+
+/** 在文件顶层定位并读取 moov atom（faststart 文件在开头，其它文件常在 mdat 之后） */
+export async function readMoovAtom(reader: BinaryFileReader): Promise<Buffer | null> {
+    let position = 0;
+    while (position + 8 <= reader.size) {
+        const header = await reader.read(position, 16);
+        if (header.length < 8) return null;
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+        let headerSize = 8;
+        if (size === 1) {
+            if (header.length < 16) return null;
+            size = Number(header.readBigUInt64BE(8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = reader.size - position;
+        }
+        if (size < headerSize) return null;
+
+        if (type === 'moov') {
+            if (size > MAX_MOOV_BYTES) return null;
+            return reader.read(position + headerSize, size - headerSize);
+        }
+        position += size;
+    }
+    return null;
+}
+
+function parseMvhd(mvhd: Buffer): number | undefined {
+    if (mvhd.length < 20) return undefined;
+    const version = mvhd[0];
+    let timescale: number;
+    let duration: number;
+    if (version === 1) {
+        if (mvhd.length < 32) return undefined;
+        timescale = mvhd.readUInt32BE(20);
+        duration = Number(mvhd.readBigUInt64BE(24));
+    } else {
+        timescale = mvhd.readUInt32BE(12);
+        duration = mvhd.readUInt32BE(16);
+    }
+    return timescale > 0 ? duration / timescale : undefined;
+}
+
+// ilst 项下的 data atom：type(4) + locale(4) + value
+function readIlstValue(item: Buffer): Buffer | null {
+    for (const atom of iterateAtoms(item)) {
+        if (atom.type === 'data' && atom.data.length >= 8) {
+            return atom.data.subarray(8);
+        }
+    }
+    return null;
+}
+
+function parseIlst(ilst: Buffer, metadata: AudioMetadata): void {
+    for (const atom of iterateAtoms(ilst)) {
+        const value = readIlstValue(atom.data);
+        if (!value) continue;
+        switch (atom.type) {
+            case '©nam':
+                metadata.title = trimText(value.toString('utf8')) || undefined;
+                break;
+            case '©ART':
+                metadata.artist = trimText(value.toString('utf8')) || undefined;
+                break;
+            case 'aART':
+                if (!metadata.artist) metadata.artist = trimText(value.toString('utf8')) || undefined;
+                break;
+            case '©alb':
+                metadata.album = trimText(value.toString('utf8')) || undefined;
+                break;
+            case '©day':
+                metadata.date = trimText(value.toString('utf8')) || undefined;
+                break;
+            case 'trkn':
+                // 2 字节保留 + 2 字节曲目号 + 2 字节总数
+                if (value.length >= 4) {
+                    const track = value.readUInt16BE(2);
+                    if (track > 0) metadata.track = track;
+                }
+                break;
+        }
+    }
+}
+
+// Nero 章节（moov/udta/chpl）：时间单位为 100ns
+function parseChpl(chpl: Buffer): Chapter[] {
+    if (chpl.length < 5) return [];
+    let offset = 4 + (chpl[0] === 1 ? 4 : 0);
+    const count = chpl[offset];
+    offset += 1;
+
+    const chapters: Chapter[] = [];
+    for (let i = 0; i < count && offset + 9 <= chpl.length; i++) {
+        const startTime = Number(chpl.readBigUInt64BE(offset)) / 10_000_000;
+        const length = chpl[offset + 8];
+        const title = trimText(chpl.toString('utf8', offset + 9, offset + 9 + length));
+        chapters.push({ startTime, title });
+        offset += 9 + length;
+    }
+    return chapters;
+}
+
+function readFullBoxUInt32Array(box: Buffer, headerSize: number, entrySize: number): number[][] {
+    // full box: version/flags(4) + [headerSize 额外字段] + 条目数(4) + 条目
+    if (box.length < 8 + headerSize) return [];
+    const count = box.readUInt32BE(4 + headerSize);
+    const entries: number[][] = [];
+    let offset = 8 + headerSize;
+    for (let i = 0; i < count && offset + entrySize * 4 <= box.length; i++) {
+        const entry: number[] = [];
+        for (let j = 0; j < entrySize; j++) {
+            entry.push(box.readUInt32BE(offset + j * 4));
+        }
+        entries.push(entry);
+        offset += entrySize * 4;
+    }
+    return entries;
+}
+
+function getTrackId(trak: Buffer): number | null {
+    const tkhd = findAtom(trak, ['tkhd']);
+    if (!tkhd || tkhd.length < 24) return null;
+    return tkhd[0] === 1 ? tkhd.readUInt32BE(20) : tkhd.readUInt32BE(12);
+}
+
+// 计算章节轨中每个样本在文件中的位置和大小
+function getSampleLocations(stbl: Buffer): Array<{ offset: number; size: number }> {
+    const stsz = findAtom(stbl, ['stsz']);
+    const stsc = findAtom(stbl, ['stsc']);
+    const stco = findAtom(stbl, ['stco']);
+    const co64 = findAtom(stbl, ['co64']);
+    if (!stsz || !stsc || (!stco && !co64) || stsz.length < 12) return [];
+
+    // 样本数直接来自文件，只取前 MAX_CHAPTER_SAMPLES 个
+    const fixedSize = stsz.readUInt32BE(4);
+    const sampleCount = Math.min(stsz.readUInt32BE(8), MAX_CHAPTER_SAMPLES);
+    const sizes = fixedSize > 0
+        ? new Array<number>(sampleCount).fill(fixedSize)
+        : readFullBoxUInt32Array(stsz, 4, 1).slice(0, sampleCount).map(entry => entry[0]);
+
+    let chunkOffsets: number[];
+    if (stco) {
+        chunkOffsets = readFullBoxUInt32Array(stco, 0, 1).map(entry => entry[0]);
+    } else {
+        const box = co64 as Buffer;
+        const count = box.length >= 8 ? box.readUInt32BE(4) : 0;
+        chunkOffsets = [];
+        for (let i = 0; i < count && 8 + (i + 1) * 8 <= box.length; i++) {
+            chunkOffsets.push(Number(box.readBigUInt64BE(8 + i * 8)));
+        }
+    }
+
+    const stscEntries = readFullBoxUInt32Array(stsc, 0, 3);
+    const locations: Array<{ offset: number; size: number }> = [];
+    let sampleIndex = 0;
+    for (let chunk = 0; chunk < chunkOffsets.length && sampleIndex < sizes.length; chunk++) {
+        // stsc 中 firstChunk 从 1 开始
+        let samplesPerChunk = 1;
+        for (const [firstChunk, perChunk] of stscEntries) {
+            if (firstChunk <= chunk + 1) samplesPerChunk = perChunk;
+        }
+        let offset = chunkOffsets[chunk];
+        for (let i = 0; i < samplesPerChunk && sampleIndex < sizes.length; i++) {
+            locations.push({ offset, size: sizes[sampleIndex] });
+            offset += sizes[sampleIndex];
+            sampleIndex += 1;
+        }
+    }
+    return locations;
+}
+
+function decodeChapterText(sample: Buffer): string {
+    if (sample.length < 2) return '';
+    const length = Math.min(sample.readUInt16BE(0), sample.length - 2);
+    const text = sample.subarray(2, 2 + length);
+    if (text.length >= 2 && text[0] === 0xfe && text[1] === 0xff) {
+        return trimText(Buffer.from(text.subarray(2)).swap16().toString('utf16le'));
+    }
+    return trimText(text.toString('utf8'));
+}
+
+// QuickTime 章节轨：音频轨的 tref/chap 指向一条文本轨，每个样本是一章的标题
+async function parseChapterTrack(reader: BinaryFileReader, moov: Buffer): Promise<Chapter[]> {
+    const traks = Array.from(iterateAtoms(moov)).filter(atom => atom.type === 'trak').map(atom => atom.data);
+
+    const chapterTrackIds = new Set<number>();
+    for (const trak of traks) {
+        const chap = findAtom(trak, ['tref', 'chap']);
+        if (!chap) continue;
+        for (let offset = 0; offset + 4 <= chap.length; offset += 4) {
+            chapterTrackIds.add(chap.readUInt32BE(offset));
+        }
+    }
+    if (chapterTrackIds.size === 0) return [];
+
+    const trak = traks.find(t => {
+        const id = getTrackId(t);
+        return id !== null && chapterTrackIds.has(id);
+    });
+    if (!trak) return [];
+
+    const mdhd = findAtom(trak, ['mdia', 'mdhd']);
+    const stbl = findAtom(trak, ['mdia', 'minf', 'stbl']);
+    const stts = stbl ? findAtom(stbl, ['stts']) : null;
+    if (!mdhd || !stbl || !stts || mdhd.length < 24) return [];
+    const timescale = mdhd[0] === 1 ? mdhd.readUInt32BE(20) : mdhd.readUInt32BE(12);
+    if (timescale <= 0) return [];
+
+    // stts: (样本数, 每样本时长) 展开为每个样本的开始时间，只展开到实际读取的样本数
+    const locations = getSampleLocations(stbl);
+    const startTimes: number[] = [];
+    let time = 0;
+    for (const [count, delta] of readFullBoxUInt32Array(stts, 0, 2)) {
+        for (let i = 0; i < count && startTimes.length < locations.length; i++) {
+            startTimes.push(time / timescale);
+            time += delta;
+        }
+        if (startTimes.length >= locations.length) break;
+    }
+
+    const chapters: Chapter[] = [];
+    for (let i = 0; i < locations.length && i < startTimes.length; i++) {
+        const { offset, size } = locations[i];
+        const title = decodeChapterText(await reader.read(offset, Math.min(size, 4096)));
+        chapters.push({ startTime: startTimes[i], title: title || `Chapter ${i + 1}` });
+    }
+    return chapters;
+}
+
+export async function parseMp4(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    const moov = await readMoovAtom(reader);
+    if (!moov) return metadata;
+
+    const mvhd = findAtom(moov, ['mvhd']);
+    if (mvhd) {
+        metadata.duration = parseMvhd(mvhd);
+    }
+
+    const ilst = findAtom(moov, ['udta', 'meta', 'ilst']);
+    if (ilst) {
+        parseIlst(ilst, metadata);
+    }
+
+    if (metadata.duration) {
+        metadata.bitrate = Math.round(reader.size * 8 / metadata.duration / 1000);
+    }
+
+    // 优先使用 QuickTime 章节轨（Apple 有声书），其次 Nero chpl
+    let chapters = await parseChapterTrack(reader, moov);
+    if (chapters.length === 0) {
+        const chpl = findAtom(moov, ['udta', 'chpl']);
+        chapters = chpl ? parseChpl(chpl) : [];
+    }
+    if (chapters.length > 0) {
+        metadata.chapters = fillChapterEndTimes(chapters, metadata.duration);
+    }
+
+    return metadata;
+}
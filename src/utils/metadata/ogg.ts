@@ -0,0 +1,104 @@
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader } from './reader';
+import { parseVorbisComment } from './vorbis';
+
+// 标识头和注释包通常在前几页；时长取自最后一页的 granule position
+const HEAD_BYTES = 256 * 1024;
+const TAIL_BYTES = 64 * 1024;
+
+interface OggPage {
+    granule: bigint;
+    body: Buffer;
+    // 每个 lacing 段的长度，< 255 表示包在该段结束
+    segments: number[];
+    next: number;
+}
+
+function readPage(buf: Buffer, offset: number): OggPage | null {
+    if (offset + 27 > buf.length || buf.toString('latin1', offset, offset + 4) !== 'OggS') return null;
+    const segmentCount = buf[offset + 26];
+    const tableEnd = offset + 27 + segmentCount;
+    if (tableEnd > buf.length) return null;
+    const segments = Array.from(buf.subarray(offset + 27, tableEnd));
+    const bodyLength = segments.reduce((sum, n) => sum + n, 0);
+    if (tableEnd + bodyLength > buf.length) return null;
+    return {
+        granule: buf.readBigInt64LE(offset + 6),
+        body: buf.subarray(tableEnd, tableEnd + bodyLength),
+        segments,
+        next: tableEnd + bodyLength
+    };
+}
+
+// 按 lacing 规则把前几页的数据重组为包
+function readPackets(buf: Buffer, limit: number): Buffer[] {
+    const packets: Buffer[] = [];
+    let pending: Buffer[] = [];
+    let offset = 0;
+
+    while (packets.length < limit) {
+        const page = readPage(buf, offset);
+        if (!page) break;
+        let bodyOffset = 0;
+        for (const segment of page.segments) {
+            pending.push(page.body.subarray(bodyOffset, bodyOffset + segment));
+            bodyOffset += segment;
+            if (segment < 255) {
+                packets.push(Buffer.concat(pending));
+                pending = [];
+                if (packets.length >= limit) break;
+            }
+        }
+        offset = page.next;
+    }
+
+    return packets;
+}
+
+// 从文件末尾找最后一页的 granule position
+async function readLastGranule(reader: BinaryFileReader): Promise<bigint | null> {
+    const start = Math.max(0, reader.size - TAIL_BYTES);
+    const tail = await reader.read(start, TAIL_BYTES);
+    for (let i = tail.length - 27; i >= 0; i--) {
+        if (tail[i] === 0x4f && tail.toString('latin1', i, i + 4) === 'OggS') {
+            const granule = tail.readBigInt64LE(i + 6);
+            if (granule > BigInt(0)) return granule;
+        }
+    }
+    return null;
+}
+
+/** Ogg Vorbis / Ogg Opus */
+export async function parseOgg(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    const head = await reader.read(0, HEAD_BYTES);
+    const [idPacket, commentPacket] = readPackets(head, 2);
+    if (!idPacket) return metadata;
+
+    let sampleRate = 0;
+    let preSkip = 0;
+    if (idPacket.toString('latin1', 0, 7) === '\x01vorbis' && idPacket.length >= 16) {
+        sampleRate = idPacket.readUInt32LE(12);
+        if (commentPacket && commentPacket.toString('latin1', 0, 7) === '\x03vorbis') {
+            parseVorbisComment(commentPacket.subarray(7), metadata);
+        }
+    } else if (idPacket.toString('latin1', 0, 8) === 'OpusHead' && idPacket.length >= 12) {
+        // Opus 的 granule 固定以 48kHz 计
+        sampleRate = 48000;
+        preSkip = idPacket.readUInt16LE(10);
+        if (commentPacket && commentPacket.toString('latin1', 0, 8) === 'OpusTags') {
+            parseVorbisComment(commentPacket.subarray(8), metadata);
+        }
+    }
+
+    const granule = await readLastGranule(reader);
+    if (sampleRate > 0 && granule !== null) {
+        const duration = (Number(granule) - preSkip) / sampleRate;
+        if (duration > 0) {
+            metadata.duration = duration;
+            metadata.bitrate = Math.round(reader.size * 8 / duration / 1000);
+        }
+    }
+
+    return metadata;
+}
@@ -0,0 +1,52 @@
+import fs from 'fs-extra';
+import { Chapter } from '../../types';
+
+/**
+ * 基于文件描述符的随机读取器，解析器只按需读取头部/atom，不把整个音频读入内存
+ */
+export class BinaryFileReader {
+    private constructor(private fd: number, public readonly size: number) { }
+
+    static async open(filePath: string): Promise<BinaryFileReader> {
+        const fd = await fs.open(filePath, 'r');
+        try {
+            const stat = await fs.fstat(fd);
+            return new BinaryFileReader(fd, stat.size);
+        } catch (error) {
+            await fs.close(fd);
+            throw error;
+        }
+    }
+
+    async read(position: number, length: number): Promise<Buffer> {
+        if (position >= this.size || length <= 0) return Buffer.alloc(0);
+        const len = Math.min(length, this.size - position);
+        const buf = Buffer.allocUnsafe(len);
+        const { bytesRead } = await fs.read(this.fd, buf, 0, len, position);
+        return buf.subarray(0, bytesRead);
+    }
+
+    async close(): Promise<void> {
+        await fs.close(this.fd);
+    }
+}
+
+// ID3/RIFF 等格式常用的文本解码：去掉结尾的 \0 和空白
+export function trimText(value: string): string {
+    return value.replace(/\0+$/g, '').trim();
+}
+
+export function parseTrackNumber(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    // "3/12" -> 3
+    const n = parseInt(value.split('/')[0], 10);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+// 补全每章的结束时间（下一章开始或文件结尾）
+export function fillChapterEndTimes(chapters: Chapter[], duration?: number): Chapter[] {
+    return chapters.map((chapter, index) => ({
+        ...chapter,
+        endTime: chapter.endTime ?? (index + 1 < chapters.length ? chapters[index + 1].startTime : duration)
+    }));
+}
@@ -0,0 +1,46 @@
+import { AudioMetadata } from '../../types';
+import { trimText, parseTrackNumber } from './reader';
+
+/**
+ * 解析 Vorbis comment（FLAC 的 VORBIS_COMMENT 块、Ogg Vorbis/Opus 的注释包共用）
+ * 结构：vendor 长度 + vendor + 条目数 + 若干（长度 + "KEY=value"），整数均为小端
+ */
+export function parseVorbisComment(buf: Buffer, metadata: AudioMetadata): void {
+    if (buf.length < 8) return;
+    let offset = 4 + buf.readUInt32LE(0);
+    if (offset + 4 > buf.length) return;
+    const count = buf.readUInt32LE(offset);
+    offset += 4;
+
+    for (let i = 0; i < count && offset + 4 <= buf.length; i++) {
+        const length = buf.readUInt32LE(offset);
+        offset += 4;
+        const entry = buf.toString('utf8', offset, Math.min(buf.length, offset + length));
+        offset += length;
+
+        const eq = entry.indexOf('=');
+        if (eq <= 0) continue;
+        const key = entry.slice(0, eq).toUpperCase();
+        const value = trimText(entry.slice(eq + 1));
+        if (!value) continue;
+
+        switch (key) {
+            case 'TITLE':
+                metadata.title = metadata.title || value;
+                break;
+            case 'ARTIST':
+            case 'ALBUMARTIST':
+                metadata.artist = metadata.artist || value;
+                break;
+            case 'ALBUM':
+                metadata.album = metadata.album || value;
+                break;
+            case 'TRACKNUMBER':
+                metadata.track = metadata.track || parseTrackNumber(value);
+                break;
+            case 'DATE':
+                metadata.date = metadata.date || value;
+                break;
+        }
+    }
+}
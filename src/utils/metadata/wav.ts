@@ -0,0 +1,76 @@
+import { AudioMetadata } from '../../types';
+import { BinaryFileReader, trimText, parseTrackNumber } from './reader';
+
+// RIFF LIST/INFO 子块 -> 元数据字段
+const INFO_FIELDS: Record<string, 'title' | 'artist' | 'album' | 'track' | 'date'> = {
+    INAM: 'title',
+    IART: 'artist',
+    IPRD: 'album',
+    ITRK: 'track',
+    IPRT: 'track',
+    ICRD: 'date'
+};
+
+function parseInfoList(list: Buffer, metadata: AudioMetadata): void {
+    // list 以 'INFO' 开头，随后是若干 id(4) + size(4) + value 子块
+    let offset = 4;
+    while (offset + 8 <= list.length) {
+        const id = list.toString('latin1', offset, offset + 4);
+        const size = list.readUInt32LE(offset + 4);
+        const value = trimText(list.toString('utf8', offset + 8, Math.min(list.length, offset + 8 + size)));
+        const field = INFO_FIELDS[id];
+        if (field === 'track') {
+            metadata.track = parseTrackNumber(value);
+        } else if (field && value) {
+            metadata[field] = value;
+        }
+        offset += 8 + size + (size % 2);
+    }
+}
+
+export async function parseWav(reader: BinaryFileReader): Promise<AudioMetadata> {
+    const metadata: AudioMetadata = {};
+    const header = await reader.read(0, 12);
+    if (header.length < 12 || header.toString('latin1', 0, 4) !== 'RIFF' || header.toString('latin1', 8, 12) !== 'WAVE') {
+        return metadata;
+    }
+
+    let byteRate = 0;
+    let dataSize = 0;
+    let position = 12;
+
+    // 逐块跳读：data 块可能有数 GB，只读块头
+    while (position + 8 <= reader.size) {
+        const chunkHeader = await reader.read(position, 8);
+        if (chunkHeader.length < 8) break;
+        const id = chunkHeader.toString('latin1', 0, 4);
+        const size = chunkHeader.readUInt32LE(4);
+        const body = position + 8;
+
+        if (id === 'fmt ') {
+            const fmt = await reader.read(body, Math.min(size, 16));
+            if (fmt.length >= 12) {
+                byteRate = fmt.readUInt32LE(8);
+            }
+        } else if (id === 'data') {
+            // 部分录音软件写入 0 或 0xFFFFFFFF 的 data 长度，用文件剩余长度代替
+            dataSize = size === 0 || size === 0xffffffff || body + size > reader.size
+                ? reader.size - body
+                : size;
+        } else if (id === 'LIST') {
+            const list = await reader.read(body, Math.min(size, 64 * 1024));
+            if (list.toString('latin1', 0, 4) === 'INFO') {
+                parseInfoList(list, metadata);
+            }
+        }
+
+        position = body + size + (size % 2);
+    }
+
+    if (byteRate > 0 && dataSize > 0) {
+        metadata.duration = dataSize / byteRate;
+        metadata.bitrate = Math.round(byteRate * 8 / 1000);
+    }
+
+    return metadata;
+}
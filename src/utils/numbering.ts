@@ -0,0 +1,186 @@
+// 中文数字、罗马数字和复合序号（S02E05 / 3-2）的识别
+
+// 文件名中的序号标记：value 为排序用的序号，season 为复合序号中的季号
+// index / length 为标记在文件名中的位置，用于清理标题
+export interface EpisodeMarker {
+    value: number;
+    season?: number;
+    index: number;
+    length: number;
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+    '零': 0, '〇': 0,
+    '一': 1, '壹': 1,
+    '二': 2, '两': 2, '兩': 2, '贰': 2, '貳': 2,
+    '三': 3, '叁': 3, '參': 3,
+    '四': 4, '肆': 4,
+    '五': 5, '伍': 5,
+    '六': 6, '陆': 6, '陸': 6,
+    '七': 7, '柒': 7,
+    '八': 8, '捌': 8,
+    '九': 9, '玖': 9
+};
+
+const CHINESE_UNITS: Record<string, number> = {
+    '十': 10, '拾': 10,
+    '百': 100, '佰': 100,
+    '千': 1000, '仟': 1000
+};
+
+const CHINESE_NUMERAL = `[${Object.keys(CHINESE_DIGITS).join('')}${Object.keys(CHINESE_UNITS).join('')}万萬]+`;
+
+// 序号与标题之间常见的分隔符
+const SEPARATORS = '-_.\\s|｜：:、．·—';
+
+// 序号后面常见的量词：第十二讲 / 第3期 / 第五章
+const CHINESE_COUNTERS = '讲講课課期集章节節回篇部卷话話辑輯场場册冊';
+
+// 上篇 / 中篇 / 下篇 以及（上）（下）
+const PART_VALUES: Record<string, number> = { '上': 1, '中': 2, '下': 3 };
+
+/**
+ * 中文数字 -> 数字，支持 一百零三、两千零五、一万二千、十二，以及逐位写法 一〇三
+ * 无法识别时返回 null
+ */
+export function parseChineseNumeral(text: string): number | null {
+    const chars = [...text];
+    if (chars.length === 0) return null;
+
+    // 逐位写法：一〇三 -> 103
+    if (chars.length > 1 && chars.every(c => c in CHINESE_DIGITS)) {
+        return parseInt(chars.map(c => CHINESE_DIGITS[c]).join(''), 10);
+    }
+
+    let total = 0;
+    let section = 0;
+    let digit: number | null = null;
+    for (const c of chars) {
+        if (c in CHINESE_DIGITS) {
+            digit = CHINESE_DIGITS[c];
+        } else if (c in CHINESE_UNITS) {
+            // 十二 中省略的「一」
+            section += (digit ?? 1) * CHINESE_UNITS[c];
+            digit = null;
+        } else if (c === '万' || c === '萬') {
+            total += (section + (digit ?? 0)) * 10000;
+            section = 0;
+            digit = null;
+        } else {
+            return null;
+        }
+    }
+    return total + section + (digit ?? 0);
+}
+
+/** 罗马数字 -> 数字（I - MMMCMXCIX），无法识别时返回 null */
+export function parseRomanNumeral(text: string): number | null {
+    const upper = text.toUpperCase();
+    if (!upper || !/^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/.test(upper)) {
+        return null;
+    }
+    const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+    let result = 0;
+    for (let i = 0; i < upper.length; i++) {
+        const current = values[upper[i]];
+        const next = values[upper[i + 1]] || 0;
+        result += current < next ? -current : current;
+    }
+    return result;
+}
+
+// 阿拉伯数字或中文数字
+function parseMixedNumber(text: string): number | null {
+    return /^\d+$/.test(text) ? parseInt(text, 10) : parseChineseNumeral(text);
+}
+
+// 上/中/下 篇，作为同一序号下的小数部分：第十二讲（上）-> 12.1
+function findPart(name: string): number | null {
+    const match = name.match(/[（(]([上中下])[)）]|([上中下])(?:篇|集|部|册|冊)/);
+    if (!match) return null;
+    return PART_VALUES[match[1] || match[2]];
+}
+
+/** 中文序号：第十二讲、第一百零三期、第12课、十二、标题，以及上篇/下篇 */
+export function findChineseMarker(name: string): EpisodeMarker | null {
+    const part = findPart(name);
+
+    // 紧跟在序号后的（上）（下）一并作为标记，清理标题时去掉
+    const counted = name.match(new RegExp(`第\\s*(${CHINESE_NUMERAL}|\\d+)\\s*[${CHINESE_COUNTERS}]?(?:\\s*[（(][上中下][)）])?`));
+    const leading = counted ? null : name.match(new RegExp(`^(${CHINESE_NUMERAL})(?=[${SEPARATORS}]|$)`));
+    const match = counted || leading;
+
+    if (match && match.index !== undefined) {
+        const value = parseMixedNumber(match[1]);
+        if (value !== null) {
+            return {
+                value: part !== null ? value + part / 10 : value,
+                index: match.index,
+                length: match[0].length
+            };
+        }
+    }
+
+    // 只有 上篇 / 下篇 的文件
+    if (part !== null) {
+        return { value: part, index: 0, length: 0 };
+    }
+    return null;
+}
+
+/** 罗马数字序号：Part IV、Chapter XII、Vol. III、第IV章 */
+export function findRomanMarker(name: string): EpisodeMarker | null {
+    const patterns = [
+        /\b(?:part|pt\.?|chapter|ch\.?|volume|vol\.?|book|episode|ep\.?|lesson|act|disc|cd)\s*[-_.:]?\s*([IVXLCDM]+)\b/i,
+        new RegExp(`第\\s*([IVXLCDM]+)\\s*[${CHINESE_COUNTERS}]`, 'i')
+    ];
+    for (const pattern of patterns) {
+        const match = name.match(pattern);
+        if (!match || match.index === undefined) continue;
+        const value = parseRomanNumeral(match[1]);
+        if (value !== null && value > 0) {
+            return { value, index: match.index, length: match[0].length };
+        }
+    }
+    return null;
+}
+
+// 复合序号的排序值：季号在前，同一季内按集号
+const SEASON_SORT_FACTOR = 10000;
+
+/** 复合序号（季 + 集）：S02E05、3-2、第三季第五集 */
+export function findCompoundMarker(name: string): EpisodeMarker | null {
+    const patterns: Array<{ pattern: RegExp; parse: (value: string) => number | null }> = [
+        { pattern: /\bS(\d{1,3})\s*[-_.]?\s*E(\d{1,4})\b/i, parse: v => parseInt(v, 10) },
+        { pattern: new RegExp(`^(\\d+)-(\\d+)(?=[${SEPARATORS}]|[\\u4e00-\\u9fffA-Za-z]|$)`), parse: v => parseInt(v, 10) },
+        {
+            pattern: new RegExp(`第\\s*(${CHINESE_NUMERAL}|\\d+)\\s*季\\s*[${SEPARATORS}]*第\\s*(${CHINESE_NUMERAL}|\\d+)\\s*[${CHINESE_COUNTERS}]?`),
+            parse: parseMixedNumber
+        }
+    ];
+    for (const { pattern, parse } of patterns) {
+        const match = name.match(pattern);
+        if (!match || match.index === undefined) continue;
+        const season = parse(match[1]);
+        const episode = parse(match[2]);
+        if (season !== null && episode !== null) {
+            return {
+                value: season * SEASON_SORT_FACTOR + episode,
+                season,
+                index: match.index,
+                length: match[0].length
+            };
+        }
+    }
+    return null;
+}
+
+/** 从标题中去掉序号标记及其两侧的分隔符；去掉后为空时保留原标题 */
+export function stripMarker(name: string, marker: EpisodeMarker): string {
+    if (marker.length === 0) return name;
+    const separators = new RegExp(`[${SEPARATORS}]+`);
+    const before = name.slice(0, marker.index).replace(new RegExp(`${separators.source}$`), '');
+    const after = name.slice(marker.index + marker.length).replace(new RegExp(`^${separators.source}`), '');
+    const title = before && after ? `${before} ${after}` : before || after;
+    return title || name;
+}
@@ -0,0 +1,49 @@
+import convert from 'xml-js';
+
+export interface OpmlOutline {
+    title: string;
+    description: string;
+    xmlUrl: string;
+    htmlUrl?: string;
+}
+
+/** 解析 ?tag=a,b 或 ?tag=a&tag=b，返回去重后的标签列表 */
+export function parseTagFilter(value: string | string[] | undefined): string[] {
+    const values = Array.isArray(value) ? value : value ? [value] : [];
+    const tags = values
+        .flatMap(item => item.split(','))
+        .map(tag => tag.trim())
+        .filter(Boolean);
+    return Array.from(new Set(tags));
+}
+
+// xml-js 只转义属性中的双引号，& < > 需要在传入前转义
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** OPML 2.0 订阅列表，播客客户端可以一次导入全部订阅 */
+export function buildOpml(title: string, outlines: OpmlOutline[], dateCreated: Date = new Date()): string {
+    return convert.js2xml({
+        _declaration: { _attributes: { version: '1.0', encoding: 'utf-8' } },
+        opml: {
+            _attributes: { version: '2.0' },
+            head: {
+                title: { _text: title },
+                dateCreated: { _text: dateCreated.toUTCString() }
+            },
+            body: {
+                outline: outlines.map(outline => ({
+                    _attributes: {
+                        type: 'rss',
+                        text: escapeAttribute(outline.title),
+                        title: escapeAttribute(outline.title),
+                        description: escapeAttribute(outline.description),
+                        xmlUrl: escapeAttribute(outline.xmlUrl),
+                        ...(outline.htmlUrl ? { htmlUrl: escapeAttribute(outline.htmlUrl) } : {})
+                    }
+                }))
+            }
+        }
+    }, { compact: true, spaces: 4 });
+}
@@ -0,0 +1,85 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Episode } from '../types';
+import { reportWarning } from './diagnostics';
+
+const ORDER_FILE = 'order.txt';
+
+// 通配符 -> 正则：* 匹配除 / 外的任意字符，** 可跨目录，? 匹配单个字符
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            source += '.*';
+            i += 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * 读取手动排序列表：优先使用播客目录中的 order.txt（每行一个文件名或通配符，# 开头为注释），
+ * 否则使用 podcast.json 中的 order 数组
+ */
+export async function loadOrderEntries(dirPath: string, configOrder: string[]): Promise<string[]> {
+    const orderPath = path.join(dirPath, ORDER_FILE);
+    if (await fs.pathExists(orderPath)) {
+        const content = await fs.readFile(orderPath, 'utf8');
+        return content
+            .replace(/^\uFEFF/, '')
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'));
+    }
+    return configOrder;
+}
+
+/**
+ * 按列表重新排序：每一项依次取出尚未排好的匹配文件（保持原有顺序），未列出的文件按原有策略排在最后
+ * 条目可以是文件名，也可以是相对播客目录的路径（如 Season 1/01.mp3）
+ * 返回排序结果和已匹配到文件的条目下标
+ */
+export function applyManualOrder(
+    episodes: Episode[],
+    entries: string[],
+    dirPath: string
+): { episodes: Episode[]; matched: Set<number> } {
+    const matched = new Set<number>();
+    if (entries.length === 0) return { episodes, matched };
+
+    const remaining = [...episodes];
+    const ordered: Episode[] = [];
+
+    entries.forEach((entry, index) => {
+        const pattern = globToRegExp(entry.replace(/\\/g, '/'));
+        for (let i = 0; i < remaining.length;) {
+            const episode = remaining[i];
+            const relativePath = path.relative(dirPath, episode.filePath).split(path.sep).join('/');
+            if (pattern.test(episode.fileName) || pattern.test(relativePath)) {
+                ordered.push(episode);
+                remaining.splice(i, 1);
+                matched.add(index);
+            } else {
+                i += 1;
+            }
+        }
+    });
+
+    return { episodes: [...ordered, ...remaining], matched };
+}
+
+/** 提示列表中没有匹配到任何文件的条目（文件被删除或改名） */
+export function warnUnmatchedOrderEntries(dirPath: string, entries: string[], matched: Set<number>): void {
+    entries.forEach((entry, index) => {
+        if (!matched.has(index)) {
+            reportWarning(`Order entry "${entry}" in ${dirPath} does not match any file`);
+        }
+    });
+}
@@ -0,0 +1,100 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Episode, EpisodeOverride } from '../types';
+import { reportWarning } from './diagnostics';
+
+export const EPISODE_TYPES = ['full', 'trailer', 'bonus'];
+
+// 文件夹级覆盖文件：{ "文件名或去掉扩展名的文件名": { ...覆盖项 } }
+const FOLDER_OVERRIDES_FILE = 'episodes.json';
+
+async function readJsonObject(filePath: string): Promise<Record<string, unknown> | null> {
+    if (!await fs.pathExists(filePath)) return null;
+    try {
+        const data = await fs.readJSON(filePath);
+        if (data && typeof data === 'object' && !Array.isArray(data)) {
+            return data as Record<string, unknown>;
+        }
+        reportWarning(`Ignoring ${filePath}: expected a JSON object`, filePath);
+    } catch (error) {
+        reportWarning(`Failed to read episode overrides from ${filePath}:`, filePath, error);
+    }
+    return null;
+}
+
+/** 校验覆盖项，无效的字段打印警告后忽略，不影响其他剧集 */
+function sanitizeOverride(raw: unknown, origin: string): EpisodeOverride | undefined {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        reportWarning(`Ignoring episode override in ${origin}: expected a JSON object`);
+        return undefined;
+    }
+    const input = raw as Record<string, unknown>;
+    const override: EpisodeOverride = {};
+    const invalid = (key: string) => reportWarning(`Ignoring invalid "${key}" in episode override ${origin}`);
+
+    for (const key of ['title', 'description', 'image'] as const) {
+        if (input[key] === undefined) continue;
+        if (typeof input[key] === 'string' && (input[key] as string).trim()) override[key] = (input[key] as string).trim();
+        else invalid(key);
+    }
+    for (const key of ['number', 'season'] as const) {
+        if (input[key] === undefined) continue;
+        if (Number.isInteger(input[key]) && (input[key] as number) >= 0) override[key] = input[key] as number;
+        else invalid(key);
+    }
+    if (input.pubDate !== undefined) {
+        if (typeof input.pubDate === 'string' && !Number.isNaN(new Date(input.pubDate).getTime())) override.pubDate = input.pubDate;
+        else invalid('pubDate');
+    }
+    if (input.explicit !== undefined) {
+        if (typeof input.explicit === 'boolean') override.explicit = input.explicit;
+        else invalid('explicit');
+    }
+    if (input.episodeType !== undefined) {
+        if (EPISODE_TYPES.includes(input.episodeType as string)) override.episodeType = input.episodeType as EpisodeOverride['episodeType'];
+        else invalid('episodeType');
+    }
+
+    return Object.keys(override).length > 0 ? override : undefined;
+}
+
+/** 读取文件夹中的 episodes.json */
+export async function loadFolderOverrides(dirPath: string): Promise<Record<string, unknown>> {
+    return await readJsonObject(path.join(dirPath, FOLDER_OVERRIDES_FILE)) || {};
+}
+
+/**
+ * 合并 episodes.json 中的条目和 <stem>.json 旁挂文件（旁挂文件优先）
+ * 含 segments 的 <stem>.json 是转录文件，不作为覆盖
+ */
+export async function resolveEpisodeOverride(
+    dirPath: string,
+    fileName: string,
+    folderOverrides: Record<string, unknown>
+): Promise<EpisodeOverride | undefined> {
+    const stem = fileName.replace(/\.[^/.]+$/, '');
+    const folderEntry = folderOverrides[fileName] ?? folderOverrides[stem];
+    const fromFolder = folderEntry !== undefined
+        ? sanitizeOverride(folderEntry, `${path.join(dirPath, FOLDER_OVERRIDES_FILE)} (${fileName})`)
+        : undefined;
+
+    const sidecarPath = path.join(dirPath, `${stem}.json`);
+    const sidecar = await readJsonObject(sidecarPath);
+    const fromSidecar = sidecar && !Array.isArray(sidecar.segments)
+        ? sanitizeOverride(sidecar, sidecarPath)
+        : undefined;
+
+    if (!fromFolder && !fromSidecar) return undefined;
+    return { ...fromFolder, ...fromSidecar };
+}
+
+/** 标题和集号直接替换；季号、发布时间在扫描排序后应用，其余字段由 feed 生成时读取 */
+export function applyEpisodeOverride(episode: Episode, override: EpisodeOverride | undefined): Episode {
+    if (!override) return episode;
+    return {
+        ...episode,
+        title: override.title ?? episode.title,
+        number: override.number ?? episode.number,
+        override
+    };
+}
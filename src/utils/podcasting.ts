@@ -0,0 +1,88 @@
+import { Episode, PodcastPerson, PodcastSource } from '../types';
+import { uuidV5 } from './state';
+import { Transcript } from './transcript';
+
+// Podcasting 2.0 规范中 podcast:guid 使用的命名空间 UUID
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+export const PODCAST_NAMESPACE_URL = 'https://podcastindex.org/namespace/1.0';
+
+export const PODCAST_MEDIUMS = [
+    'podcast', 'music', 'video', 'film', 'audiobook', 'newsletter', 'blog', 'course'
+];
+
+/** podcast:guid：对去掉协议和末尾斜杠的 feed 地址做 UUIDv5 */
+export function getPodcastGuid(feedUrl: string): string {
+    const normalized = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+    return uuidV5(normalized, PODCAST_GUID_NAMESPACE);
+}
+
+export function validatePersons(persons: PodcastPerson[]): void {
+    if (!Array.isArray(persons) || persons.some(p => !p || typeof p.name !== 'string' || !p.name.trim())) {
+        throw new Error('persons in podcast.json must be an array of { name, role?, group?, img?, href? }');
+    }
+}
+
+function toPersonNode(person: PodcastPerson): Record<string, unknown> {
+    const attrs: Record<string, string> = {};
+    if (person.role) attrs.role = person.role;
+    if (person.group) attrs.group = person.group;
+    if (person.img) attrs.img = person.img;
+    if (person.href) attrs.href = person.href;
+    return { _attr: attrs, _text: person.name };
+}
+
+/** 频道级 podcast: 标签 */
+export function buildChannelTags(source: PodcastSource, feedUrl: string): Record<string, unknown> {
+    const { config } = source;
+    const tags: Record<string, unknown> = {
+        'podcast:guid': getPodcastGuid(feedUrl),
+        'podcast:locked': config.email
+            ? { _attr: { owner: config.email }, _text: config.locked ? 'yes' : 'no' }
+            : (config.locked ? 'yes' : 'no'),
+        'podcast:medium': config.medium
+    };
+    if (config.persons.length > 0) {
+        tags['podcast:person'] = config.persons.map(toPersonNode);
+    }
+    return tags;
+}
+
+/** 剧集级 podcast: 标签 */
+export function buildItemTags(params: {
+    source: PodcastSource;
+    episode: Episode;
+    episodeNumber: number;
+    chaptersUrl?: string;
+    transcripts: Transcript[];
+}): Record<string, unknown> {
+    const { source, episode, episodeNumber, chaptersUrl, transcripts } = params;
+    const tags: Record<string, unknown> = {};
+
+    if (episode.season !== undefined) {
+        tags['podcast:season'] = episode.seasonName
+            ? { _attr: { name: episode.seasonName }, _text: String(episode.season) }
+            : String(episode.season);
+    }
+    tags['podcast:episode'] = String(episodeNumber);
+
+    if (chaptersUrl) {
+        tags['podcast:chapters'] = {
+            _attr: { url: chaptersUrl, type: 'application/json+chapters' }
+        };
+    }
+
+    if (transcripts.length > 0) {
+        tags['podcast:transcript'] = transcripts.map(t => ({
+            _attr: {
+                url: t.url,
+                type: t.type,
+                language: source.config.language,
+                // 带时间轴的字幕格式可作为隐藏字幕显示
+                ...(t.type !== 'application/json' ? { rel: 'captions' } : {})
+            }
+        }));
+    }
+
+    return tags;
+}
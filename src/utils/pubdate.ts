@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import { Episode, PubDateStrategy } from '../types';
+import { generateSequentialPubDate } from './episode';
+
+type DateSource = 'sequential' | 'mtime' | 'filename' | 'tag' | 'firstSeen';
+
+// 每种策略的取值顺序：前一个来源取不到日期时依次回退，mtime 总能取到
+const FALLBACK_CHAINS: Record<PubDateStrategy, DateSource[]> = {
+    sequential: ['sequential'],
+    mtime: ['mtime'],
+    filename: ['filename', 'tag', 'mtime'],
+    tag: ['tag', 'filename', 'mtime'],
+    firstSeen: ['firstSeen', 'mtime']
+};
+
+export const PUB_DATE_STRATEGIES = Object.keys(FALLBACK_CHAINS) as PubDateStrategy[];
+
+function makeUtcDate(year: number, month: number, day: number): Date | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // 过滤 2023-02-30 这类会被 Date 自动进位的日期
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+}
+
+/**
+ * 从文件名中解析日期
+ * 支持 2023-05-14 / 2023.05.14 / 2023_05_14、20230514、2023年5月14日
+ */
+export function parseDateFromFileName(fileName: string): Date | null {
+    const patterns = [
+        /((?:19|20)\d{2})年(\d{1,2})月(\d{1,2})[日号]?/,
+        /(?<!\d)((?:19|20)\d{2})[-_.](\d{1,2})[-_.](\d{1,2})(?!\d)/,
+        /(?<!\d)((?:19|20)\d{2})(\d{2})(\d{2})(?!\d)/
+    ];
+    for (const pattern of patterns) {
+        const match = fileName.match(pattern);
+        if (match) {
+            const date = makeUtcDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+            if (date) return date;
+        }
+    }
+    return null;
+}
+
+/** 解析 ID3 TDRC/TYER 或 MP4 ©day 中的日期：2023 / 2023-05 / 2023-05-14 / 2023-05-14T10:00:00Z */
+export function parseTagDate(value?: string): Date | null {
+    if (!value) return null;
+    const match = value.trim().match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/);
+    if (!match) return null;
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value.trim())) {
+        const full = new Date(value.trim());
+        if (!isNaN(full.getTime())) return full;
+    }
+    return makeUtcDate(parseInt(match[1], 10), match[2] ? parseInt(match[2], 10) : 1, match[3] ? parseInt(match[3], 10) : 1);
+}
+
+async function readDateSource(source: DateSource, episode: Episode, index: number): Promise<Date | null> {
+    switch (source) {
+        case 'sequential':
+            return generateSequentialPubDate(index);
+        case 'filename':
+            return parseDateFromFileName(episode.fileName);
+        case 'tag':
+            return parseTagDate(episode.metadata?.date);
+        case 'firstSeen':
+            return episode.firstSeen || null;
+        case 'mtime':
+            try {
+                return (await fs.stat(episode.filePath)).mtime;
+            } catch {
+                return null;
+            }
+    }
+}
+
+/**
+ * 按策略为排好序的剧集分配发布时间
+ * 多集落在同一时刻时（如只有日期），按列表顺序依次错开 1 分钟，保证客户端排序稳定
+ */
+export async function assignPubDates(episodes: Episode[], strategy: PubDateStrategy): Promise<Episode[]> {
+    const chain = FALLBACK_CHAINS[strategy] || FALLBACK_CHAINS.sequential;
+    const used = new Set<number>();
+    const result: Episode[] = [];
+
+    for (let index = 0; index < episodes.length; index++) {
+        const episode = episodes[index];
+        let pubDate: Date | null = null;
+        for (const source of chain) {
+            pubDate = await readDateSource(source, episode, index);
+            if (pubDate) break;
+        }
+
+        let time = (pubDate || episode.pubDate).getTime();
+        while (used.has(time)) {
+            time += 60 * 1000;
+        }
+        used.add(time);
+        result.push({ ...episode, pubDate: new Date(time) });
+    }
+
+    return result;
+}
@@ -2,7 +2,15 @@ import fs from 'fs-extra';
 import path from 'path';
 import { Episode, PodcastSource, PodcastConfig } from '../types';
 import { readConfig, getConfigWithDefaults, validateConfig } from './config';
-import { createEpisode, validateFileName, parseEpisodeNumber, generateSequentialPubDate } from './episode';
+import { createEpisode, validateFileName, parseEpisodeNumber } from './episode';
+import { readAudioMetadata, flushMetadataCache } from './metadata';
+import { resolveEpisodeState, flushEpisodeState } from './state';
+import { assignPubDates } from './pubdate';
+import { applyReleaseSchedule } from './schedule';
+import { loadEpisodeChapters, splitEpisodesByChapters } from './chapters';
+import { applyEpisodeOverride, loadFolderOverrides, resolveEpisodeOverride } from './overrides';
+import { applyManualOrder, loadOrderEntries, warnUnmatchedOrderEntries } from './order';
+import { reportWarning } from './diagnostics';
 
 export async function validatePodcastDirectory(dirPath: string): Promise<void> {
     // 只检查目录是否存在
@@ -16,8 +24,9 @@ export function sortEpisodes(episodes: Episode[], config?: Required<PodcastConfi
     const numberCache = new Map<string, number | null>();
 
     // 首先解析并缓存所有文件的序号
+    // episodes.json 等覆盖的集号优先于文件名
     episodes.forEach(episode => {
-        numberCache.set(episode.fileName, parseEpisodeNumber(episode.fileName, config));
+        numberCache.set(episode.fileName, episode.override?.number ?? parseEpisodeNumber(episode.fileName, config));
     });
 
     // 分离有序号和无序号文件
@@ -44,9 +53,41 @@ export function sortEpisodes(episodes: Episode[], config?: Required<PodcastConfi
     return [...numberedEpisodes, ...unnumberedEpisodes];
 }
 
-export async function scanAudioFiles(dirPath: string, config: Required<PodcastConfig>): Promise<Episode[]> {
+// 从季文件夹名中提取季号，如 "Season 2" / "第2季" / "S02" -> 2
+export function parseSeasonNumber(dirName: string): number | null {
+    const match = dirName.match(/(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+// 季文件夹排序并分配季号：文件夹名都带有互不相同的数字时使用该数字，否则按排序后的顺序编号
+function assignSeasonNumbers(dirNames: string[]): Array<{ dirName: string; season: number }> {
+    const parsed = dirNames.map(dirName => ({ dirName, number: parseSeasonNumber(dirName) }));
+    parsed.sort((a, b) => {
+        if (a.number !== null && b.number !== null && a.number !== b.number) return a.number - b.number;
+        if (a.number !== null && b.number === null) return -1;
+        if (a.number === null && b.number !== null) return 1;
+        return a.dirName.localeCompare(b.dirName, 'zh');
+    });
+
+    const numbers = parsed.map(p => p.number);
+    const useNames = numbers.every(n => n !== null) && new Set(numbers).size === numbers.length;
+
+    return parsed.map((p, index) => ({
+        dirName: p.dirName,
+        season: useNames ? p.number as number : index + 1
+    }));
+}
+
+export interface ScanOptions {
+    // 只读扫描（管理界面预览）：不为新文件建档，也不写回元数据缓存和剧集状态
+    readOnly?: boolean;
+}
+
+// 读取单个目录（不递归）中的音频文件
+async function readAudioEpisodes(dirPath: string, config: Required<PodcastConfig>, options: ScanOptions): Promise<Episode[]> {
     const files = await fs.readdir(dirPath);
     const episodes: Episode[] = [];
+    const folderOverrides = await loadFolderOverrides(dirPath);
 
     for (const file of files) {
         // 跳过隐藏文件（以 . 开头的文件）
@@ -54,25 +95,110 @@ export async function scanAudioFiles(dirPath: string, config: Required<PodcastCo
             continue;
         }
 
-        if (!validateFileName(file)) {
+        if (!validateFileName(file, config)) {
             continue;
         }
 
         try {
             // 将配置对象传递给 createEpisode
-            const episode = createEpisode(file, dirPath, config.titleFormat, config);
+            const episode = applyEpisodeOverride(
+                createEpisode(file, dirPath, config.titleFormat, config),
+                await resolveEpisodeOverride(dirPath, file, folderOverrides)
+            );
+            episode.metadata = await readAudioMetadata(episode.filePath);
+            const episodeState = await resolveEpisodeState(episode.filePath, options.readOnly);
+            episode.guid = episodeState.guid;
+            episode.firstSeen = new Date(episodeState.firstSeen);
+            episode.chapters = await loadEpisodeChapters(episode);
             episodes.push(episode);
         } catch (error) {
-            console.warn(`Skipping invalid file: ${file}`, error);
+            reportWarning(`Skipping invalid file: ${file}`, path.join(dirPath, file), error);
         }
     }
 
-    const sorted = sortEpisodes(episodes, config);
-    // 最终按列表顺序写入递增 pubDate（每天一集），客户端按 Oldest 即课程顺序
-    return sorted.map((episode, index) => ({
-        ...episode,
-        pubDate: generateSequentialPubDate(index)
-    }));
+    return episodes;
+}
+
+// 递归读取目录及其所有子目录中的音频文件
+async function readAudioEpisodesDeep(dirPath: string, config: Required<PodcastConfig>, options: ScanOptions): Promise<Episode[]> {
+    const episodes = await readAudioEpisodes(dirPath, config, options);
+    for (const subDir of await listSubDirs(dirPath)) {
+        episodes.push(...await readAudioEpisodesDeep(path.join(dirPath, subDir), config, options));
+    }
+    return episodes;
+}
+
+async function listSubDirs(dirPath: string): Promise<string[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .map(entry => entry.name);
+}
+
+export async function scanAudioFiles(dirPath: string, config: Required<PodcastConfig>, options: ScanOptions = {}): Promise<Episode[]> {
+    // 根目录下的音频文件
+    const rootEpisodes = sortEpisodes(await readAudioEpisodes(dirPath, config, options), config);
+
+    // 子文件夹：每个子文件夹（含其下更深的目录）为一组
+    const seasons: Array<{ dirName: string; season: number; episodes: Episode[] }> = [];
+    for (const { dirName, season } of assignSeasonNumbers(await listSubDirs(dirPath))) {
+        const episodes = await readAudioEpisodesDeep(path.join(dirPath, dirName), config, options);
+        if (episodes.length === 0) continue;
+        seasons.push({ dirName, season, episodes: sortEpisodes(episodes, config) });
+    }
+
+    if (!options.readOnly) {
+        await flushMetadataCache();
+        await flushEpisodeState();
+    }
+
+    // 手动排序（order.txt / podcast.json 的 order）：分季时在每一季内部生效
+    const orderEntries = await loadOrderEntries(dirPath, config.order);
+    const orderMatched = new Set<number>();
+    const reorder = (episodes: Episode[]): Episode[] => {
+        const result = applyManualOrder(episodes, orderEntries, dirPath);
+        result.matched.forEach(index => orderMatched.add(index));
+        return result.episodes;
+    };
+
+    let sorted: Episode[];
+    if (config.seasonMode === 'flatten' || seasons.length === 0) {
+        // 合并为单季：根目录文件在前，之后按季文件夹顺序拼接
+        // 没有季文件夹时，复合序号（S02E05）中的季号仍然生效
+        sorted = reorder([...rootEpisodes, ...seasons.flatMap(s => s.episodes)])
+            .map(episode => ({ ...episode, season: seasons.length === 0 ? episode.season ?? 1 : 1 }));
+    } else {
+        // 分季：根目录文件不属于任何一季（如预告、简介），放在最前
+        sorted = [
+            ...reorder(rootEpisodes),
+            ...seasons.flatMap(s => reorder(s.episodes).map(episode => ({
+                ...episode,
+                season: s.season,
+                seasonName: s.dirName
+            })))
+        ];
+    }
+
+    warnUnmatchedOrderEntries(dirPath, orderEntries, orderMatched);
+
+    // 覆盖中指定的季号优先于季文件夹
+    sorted = sorted.map(episode => episode.override?.season !== undefined
+        ? { ...episode, season: episode.override.season, seasonName: undefined }
+        : episode);
+
+    // 把带章节的长音频拆成每章一集
+    if (config.splitChapters) {
+        sorted = splitEpisodesByChapters(sorted);
+    }
+
+    // 按配置的策略写入 pubDate；默认 sequential 按列表顺序每天一集，客户端按 Oldest 即课程顺序
+    // 覆盖中指定的发布时间优先于策略
+    const dated = (await assignPubDates(sorted, config.pubDateStrategy)).map(episode => episode.override?.pubDate
+        ? { ...episode, pubDate: new Date(episode.override.pubDate) }
+        : episode);
+
+    // 配置了发布排期时，解锁时间覆盖 pubDate
+    return applyReleaseSchedule(dated, config.releaseSchedule);
 }
 
 export async function processPodcastSource(dirPath: string): Promise<PodcastSource> {
@@ -0,0 +1,101 @@
+import { Episode, PodcastSource, ReleaseSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseTime(time?: string): { hours: number; minutes: number } {
+    const match = (time || '00:00').match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return { hours: 0, minutes: 0 };
+    return { hours: parseInt(match[1], 10), minutes: parseInt(match[2], 10) };
+}
+
+function parseStartDate(start: string): Date | null {
+    const match = start.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    // 仅日期时按服务器本地时区解析（与 time 一致）
+    const date = match
+        ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+        : new Date(start);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export function validateReleaseSchedule(schedule: ReleaseSchedule): void {
+    if (!schedule || typeof schedule !== 'object') {
+        throw new Error('Invalid releaseSchedule in podcast.json');
+    }
+    if (!schedule.start || !parseStartDate(schedule.start)) {
+        throw new Error('releaseSchedule.start must be a date like 2025-01-06');
+    }
+    const { cadence } = schedule;
+    if (typeof cadence === 'string') {
+        if (!['daily', 'weekdays', 'weekly'].includes(cadence)) {
+            throw new Error('Invalid releaseSchedule.cadence. Must be one of: daily, weekdays, weekly, or { perWeek: n }');
+        }
+    } else if (!cadence || !Number.isInteger(cadence.perWeek) || cadence.perWeek < 1 || cadence.perWeek > 7) {
+        throw new Error('releaseSchedule.cadence.perWeek must be an integer between 1 and 7');
+    }
+    if (schedule.time !== undefined && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(schedule.time)) {
+        throw new Error('releaseSchedule.time must be in HH:mm format');
+    }
+    if (schedule.batchSize !== undefined && (!Number.isInteger(schedule.batchSize) || schedule.batchSize < 1)) {
+        throw new Error('releaseSchedule.batchSize must be a positive integer');
+    }
+}
+
+// 第 slot 个发布时段相对开始日期的天数偏移
+function getDayOffset(schedule: ReleaseSchedule, slot: number, start: Date): number {
+    const { cadence } = schedule;
+    if (cadence === 'weekdays') {
+        // 从开始日期起跳过周六、周日
+        let offset = 0;
+        let remaining = slot;
+        while (true) {
+            const day = new Date(start.getTime() + offset * DAY_MS).getDay();
+            if (day !== 0 && day !== 6) {
+                if (remaining === 0) return offset;
+                remaining -= 1;
+            }
+            offset += 1;
+        }
+    }
+    // 每周 n 集：从开始日期起在一周内均匀分布，daily = 7，weekly = 1
+    const perWeek = cadence === 'daily' ? 7 : cadence === 'weekly' ? 1 : cadence.perWeek;
+    return Math.floor(slot / perWeek) * 7 + Math.floor((slot % perWeek) * 7 / perWeek);
+}
+
+/** 按排期为剧集分配解锁时间，解锁时间同时作为发布时间 */
+export function applyReleaseSchedule(episodes: Episode[], schedule: ReleaseSchedule | null): Episode[] {
+    if (!schedule) return episodes;
+    const start = parseStartDate(schedule.start);
+    if (!start) return episodes;
+
+    const { hours, minutes } = parseTime(schedule.time);
+    const batchSize = schedule.batchSize || 1;
+
+    return episodes.map((episode, index) => {
+        const slot = Math.floor(index / batchSize);
+        const releaseDate = new Date(start.getTime());
+        releaseDate.setDate(releaseDate.getDate() + getDayOffset(schedule, slot, start));
+        releaseDate.setHours(hours, minutes, 0, 0);
+        // 同一批次内按顺序错开 1 秒，保证客户端排序稳定
+        releaseDate.setSeconds(index % batchSize);
+        return { ...episode, pubDate: releaseDate, releaseDate };
+    });
+}
+
+/** 已到解锁时间的剧集；未配置排期的剧集始终可见 */
+export function getReleasedEpisodes(source: PodcastSource, now: Date = new Date()): Episode[] {
+    return source.episodes.filter(episode => !episode.releaseDate || episode.releaseDate.getTime() <= now.getTime());
+}
+
+/** 下一集的解锁时间，没有待解锁剧集时返回 null */
+export function getNextReleaseDate(sources: Iterable<PodcastSource>, now: Date = new Date()): Date | null {
+    let next: Date | null = null;
+    for (const source of sources) {
+        for (const episode of source.episodes) {
+            const releaseDate = episode.releaseDate;
+            if (releaseDate && releaseDate.getTime() > now.getTime() && (!next || releaseDate < next)) {
+                next = releaseDate;
+            }
+        }
+    }
+    return next;
+}
@@ -0,0 +1,356 @@
+import path from 'path';
+import pinyin from 'pinyin';
+import { Episode, PodcastSource } from '../types';
+import { findSidecarAttachments } from './feed';
+import { findTranscripts, readTranscriptSegments } from './transcript';
+import { getEpisodeId } from './listing';
+
+// 可搜索的内容：播客标题、简介（播客和剧集），剧集标题，同名笔记（.md / .txt）和转录
+export type SearchField = 'podcast' | 'description' | 'episode' | 'note' | 'transcript';
+
+// 命中字段的权重，标题比正文更相关
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    podcast: 5,
+    episode: 4,
+    description: 2,
+    note: 1,
+    transcript: 1
+};
+
+// 拼音匹配的相关性低于原文，首字母缩写更低
+const PINYIN_WEIGHT = 0.8;
+const INITIALS_WEIGHT = 0.5;
+
+// 单个笔记 / 转录最多索引的字符数
+const MAX_INDEXED_CHARS = 200000;
+
+// 简介、笔记和转录只为开头这么多字符建立拼音词元，且不建首字母词元：正文篇幅长，首字母匹配的误报太多
+const MAX_PINYIN_INDEXED_CHARS = 5000;
+
+// 每个结果最多列出的命中片段
+const MAX_MATCHES_PER_HIT = 3;
+
+const SNIPPET_BEFORE = 30;
+const SNIPPET_LENGTH = 120;
+
+// 中日韩文字没有空格分词，连续的一段按相邻两字（bigram）切分；其他文字按单词切分
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const HAN_PATTERN = /\p{Script=Han}+/gu;
+
+interface SearchEntry {
+    field: SearchField;
+    text: string;
+    file?: string;            // 笔记、转录的文件名
+    episodeId?: string;       // 播客本身的标题和简介为空
+    episodeTitle?: string;
+    releaseDate?: Date;       // 未解锁的剧集不出现在搜索结果中
+}
+
+/** 一个播客的倒排索引：词元 -> 包含该词元的条目序号 */
+export interface SourceIndex {
+    dirName: string;
+    title: string;
+    entries: SearchEntry[];
+    postings: Map<string, Set<number>>;
+    syllables: Set<string>;   // 标题中出现过的拼音音节，用于切分拼音查询
+}
+
+export interface SearchMatch {
+    field: SearchField;
+    file?: string;
+    snippet: string;
+}
+
+export interface SearchHit {
+    dirName: string;
+    podcastTitle: string;
+    episodeId?: string;       // 与 /podcasts/<dir> 中剧集的 id 相同，播客本身命中时为空
+    episodeTitle?: string;
+    score: number;
+    matches: SearchMatch[];
+}
+
+// 查询中的一个词及其可选的匹配方式（原文、拼音、首字母），满足任一即可
+interface QueryTerm {
+    text: string;
+    alternatives: Array<{ tokens: string[]; weight: number }>;
+}
+
+function normalize(text: string): string {
+    return text.normalize('NFKC').toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const [run] of normalize(text).matchAll(TOKEN_PATTERN)) {
+        if (!CJK_PATTERN.test(run)) {
+            tokens.push(run);
+            continue;
+        }
+        const chars = Array.from(run);
+        if (chars.length === 1) {
+            tokens.push(run);
+        }
+        for (let i = 0; i < chars.length - 1; i++) {
+            tokens.push(chars[i] + chars[i + 1]);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * 汉字的拼音词元：相邻两字的全拼（py:suoyin）和首字母（in:sy），单字只有全拼
+ * 多音字取前几个读音的全部组合
+ */
+function pinyinTokens(text: string, syllables: Set<string>, withInitials: boolean): string[] {
+    const tokens: string[] = [];
+    for (const [run] of normalize(text).matchAll(HAN_PATTERN)) {
+        const readings = pinyin(run, { style: pinyin.STYLE_NORMAL, heteronym: true })
+            .map(options => options.slice(0, 3).filter(reading => /^[a-z]+$/.test(reading)));
+        readings.flat().forEach(reading => syllables.add(reading));
+
+        if (readings.length === 1) {
+            tokens.push(...readings[0].map(reading => `py:${reading}`));
+        }
+        for (let i = 0; i < readings.length - 1; i++) {
+            for (const a of readings[i]) {
+                for (const b of readings[i + 1]) {
+                    tokens.push(`py:${a}${b}`);
+                    if (withInitials) tokens.push(`in:${a[0]}${b[0]}`);
+                }
+            }
+        }
+    }
+    return tokens;
+}
+
+// isTitle 为 false 的正文字段只索引开头部分的全拼
+function addEntry(index: SourceIndex, entry: SearchEntry, isTitle: boolean): void {
+    if (!entry.text.trim()) return;
+    const id = index.entries.push(entry) - 1;
+    const tokens = tokenize(entry.text);
+    tokens.push(...(isTitle
+        ? pinyinTokens(entry.text, index.syllables, true)
+        : pinyinTokens(entry.text.slice(0, MAX_PINYIN_INDEXED_CHARS), index.syllables, false)));
+    for (const token of tokens) {
+        let ids = index.postings.get(token);
+        if (!ids) {
+            ids = new Set();
+            index.postings.set(token, ids);
+        }
+        ids.add(id);
+    }
+}
+
+// 与音频同名的 .md / .txt 笔记
+async function readNotes(source: PodcastSource, episode: Episode): Promise<Array<{ fileName: string; text: string }>> {
+    const attachments = await findSidecarAttachments({
+        source,
+        dirPath: path.dirname(episode.filePath),
+        audioFileName: episode.fileName,
+        baseUrl: '',
+        maxTextChars: MAX_INDEXED_CHARS
+    });
+    return attachments
+        .filter(attachment => attachment.kind === 'text' && attachment.inlineText)
+        .map(attachment => ({ fileName: attachment.fileName, text: attachment.inlineText as string }));
+}
+
+// 同一剧集有多种格式的转录时内容相同，只取第一个能解析的
+async function readTranscript(episode: Episode): Promise<{ fileName: string; text: string } | null> {
+    const transcripts = await findTranscripts(episode, () => '', () => '');
+    for (const transcript of transcripts) {
+        const segments = await readTranscriptSegments(transcript.filePath);
+        if (segments?.length) {
+            const text = segments.map(segment => segment.body).join('\n');
+            return { fileName: transcript.fileName, text: text.slice(0, MAX_INDEXED_CHARS) };
+        }
+    }
+    return null;
+}
+
+/**
+ * 为一个播客建立搜索索引，在扫描播客源时调用
+ */
+export async function buildSearchIndex(source: PodcastSource): Promise<SourceIndex> {
+    const index: SourceIndex = {
+        dirName: source.dirName,
+        title: source.config.title,
+        entries: [],
+        postings: new Map(),
+        syllables: new Set()
+    };
+
+    addEntry(index, { field: 'podcast', text: source.config.title }, true);
+    addEntry(index, { field: 'description', text: source.config.description }, false);
+
+    // 章节拆分出的剧集共用同一个文件的笔记和转录，只索引一次
+    const indexedFiles = new Set<string>();
+    for (const episode of source.episodes) {
+        const episodeInfo = {
+            episodeId: getEpisodeId(source, episode),
+            episodeTitle: episode.title,
+            releaseDate: episode.releaseDate
+        };
+        addEntry(index, { field: 'episode', text: episode.title, ...episodeInfo }, true);
+        addEntry(index, { field: 'description', text: episode.override?.description ?? '', ...episodeInfo }, false);
+
+        if (indexedFiles.has(episode.filePath)) continue;
+        indexedFiles.add(episode.filePath);
+
+        for (const note of await readNotes(source, episode)) {
+            addEntry(index, { field: 'note', text: note.text, file: note.fileName, ...episodeInfo }, false);
+        }
+        const transcript = await readTranscript(episode);
+        if (transcript) {
+            addEntry(index, { field: 'transcript', text: transcript.text, file: transcript.fileName, ...episodeInfo }, false);
+        }
+    }
+
+    return index;
+}
+
+// 把拼音串切分成音节（只使用索引中出现过的音节），有歧义时返回多种切分
+function splitSyllables(text: string, syllables: Set<string>, limit: number = 8): string[][] {
+    const results: string[][] = [];
+    const walk = (start: number, parts: string[]) => {
+        if (results.length >= limit) return;
+        if (start === text.length) {
+            results.push(parts);
+            return;
+        }
+        for (let end = Math.min(text.length, start + 6); end > start; end--) {
+            const syllable = text.slice(start, end);
+            if (syllables.has(syllable)) {
+                walk(end, [...parts, syllable]);
+            }
+        }
+    };
+    walk(0, []);
+    return results;
+}
+
+function parseQuery(query: string, syllables: Set<string>): QueryTerm[] {
+    const terms: QueryTerm[] = [];
+    for (const text of normalize(query).split(/\s+/)) {
+        const tokens = tokenize(text);
+        if (tokens.length === 0) continue;
+        const term: QueryTerm = { text, alternatives: [{ tokens, weight: 1 }] };
+
+        // 纯字母的词也可能是拼音（suoyin）或拼音首字母（sy）
+        if (/^[a-z]+$/.test(text)) {
+            for (const parts of splitSyllables(text, syllables)) {
+                const pinyinTokens = parts.length === 1
+                    ? [`py:${parts[0]}`]
+                    : parts.slice(1).map((part, i) => `py:${parts[i]}${part}`);
+                term.alternatives.push({ tokens: pinyinTokens, weight: PINYIN_WEIGHT });
+            }
+            if (text.length >= 2) {
+                const initials = Array.from(text.slice(1), (char, i) => `in:${text[i]}${char}`);
+                term.alternatives.push({ tokens: initials, weight: INITIALS_WEIGHT });
+            }
+        }
+        terms.push(term);
+    }
+    return terms;
+}
+
+// 包含某个词元的条目；三个字母以上的单词同时匹配以其开头的词（index -> indexes）
+function lookup(index: SourceIndex, token: string): Set<number> {
+    const exact = index.postings.get(token);
+    if (token.length < 3 || CJK_PATTERN.test(token) || token.includes(':')) {
+        return exact ?? new Set();
+    }
+    const ids = new Set(exact);
+    for (const [key, keyIds] of index.postings) {
+        if (key.length > token.length && key.startsWith(token)) {
+            keyIds.forEach(id => ids.add(id));
+        }
+    }
+    return ids;
+}
+
+// 词在各条目中的匹配权重（多种匹配方式取最高）
+function matchTerm(index: SourceIndex, term: QueryTerm): Map<number, number> {
+    const weights = new Map<number, number>();
+    for (const alternative of term.alternatives) {
+        let ids = lookup(index, alternative.tokens[0]);
+        for (const token of alternative.tokens.slice(1)) {
+            if (ids.size === 0) break;
+            const found = lookup(index, token);
+            ids = new Set([...ids].filter(id => found.has(id)));
+        }
+        for (const id of ids) {
+            weights.set(id, Math.max(weights.get(id) ?? 0, alternative.weight));
+        }
+    }
+    return weights;
+}
+
+// 命中位置附近的一段文字
+function makeSnippet(text: string, terms: QueryTerm[]): string {
+    const lower = text.toLowerCase();
+    const positions = terms
+        .flatMap(term => [term.text, ...term.alternatives[0].tokens])
+        .map(needle => lower.indexOf(needle))
+        .filter(position => position >= 0);
+    const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - SNIPPET_BEFORE) : 0;
+    const snippet = text.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+}
+
+/**
+ * 在索引中搜索，结果按剧集（或播客本身）归并、按相关度排序
+ * 所有词都要命中：剧集的词可以分别出现在标题、笔记、转录中，也可以由所属播客的标题和简介补足
+ */
+export function search(indexes: Iterable<SourceIndex>, query: string, limit: number, now: Date = new Date()): SearchHit[] {
+    const hits: SearchHit[] = [];
+
+    for (const index of indexes) {
+        const terms = parseQuery(query, index.syllables);
+        if (terms.length === 0) return [];
+
+        // 以剧集 id 归并条目，'' 为播客本身
+        const groups = new Map<string, Map<number, number[]>>();
+        terms.forEach((term, termIndex) => {
+            for (const [id, weight] of matchTerm(index, term)) {
+                const entry = index.entries[id];
+                if (entry.releaseDate && entry.releaseDate.getTime() > now.getTime()) continue;
+                const key = entry.episodeId ?? '';
+                const group = groups.get(key) ?? new Map<number, number[]>();
+                groups.set(key, group);
+                const termWeights = group.get(id) ?? new Array(terms.length).fill(0);
+                termWeights[termIndex] = weight;
+                group.set(id, termWeights);
+            }
+        });
+
+        const podcastGroup = groups.get('') ?? new Map<number, number[]>();
+        for (const [episodeId, group] of groups) {
+            // 剧集自身至少命中一个词时，才用播客的标题和简介补足其他词
+            const candidates = episodeId ? new Map([...podcastGroup, ...group]) : group;
+            const scores = terms.map((_, termIndex) => Math.max(0, ...[...candidates].map(([id, termWeights]) =>
+                termWeights[termIndex] * FIELD_WEIGHTS[index.entries[id].field])));
+            if (scores.some(score => score === 0)) continue;
+
+            const entries = [...group.keys()].map(id => index.entries[id]);
+            hits.push({
+                dirName: index.dirName,
+                podcastTitle: index.title,
+                ...(episodeId ? { episodeId, episodeTitle: entries[0].episodeTitle } : {}),
+                score: Math.round(scores.reduce((sum, score) => sum + score, 0) * 100) / 100,
+                matches: entries
+                    .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+                    .slice(0, MAX_MATCHES_PER_HIT)
+                    .map(entry => ({
+                        field: entry.field,
+                        ...(entry.file ? { file: entry.file } : {}),
+                        snippet: makeSnippet(entry.text, terms)
+                    }))
+            });
+        }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
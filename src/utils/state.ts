@@ -0,0 +1,142 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// 指纹只读取文件首尾各 64KB，加上文件大小，避免对大文件做全量哈希
+const FINGERPRINT_CHUNK_BYTES = 64 * 1024;
+
+const STATE_VERSION = 1;
+
+export interface EpisodeState {
+    // 永久 GUID，写入 feed 的 <guid isPermaLink="false">
+    guid: string;
+    // 首次发现时间（ISO 字符串）
+    firstSeen: string;
+    // 最近一次出现的位置（绝对路径）
+    lastPath: string;
+}
+
+// 路径 -> 指纹 的缓存，文件大小和修改时间不变时无需重新读取
+interface PathEntry {
+    size: number;
+    mtimeMs: number;
+    fingerprint: string;
+}
+
+interface StateFile {
+    version: number;
+    episodes: Record<string, EpisodeState>;
+    paths: Record<string, PathEntry>;
+}
+
+let state: StateFile | null = null;
+let stateDirty = false;
+
+function getStateFilePath(): string {
+    return path.join(process.cwd(), '.state', 'episodes.json');
+}
+
+async function loadState(): Promise<StateFile> {
+    if (state) return state;
+    try {
+        const data = await fs.readJSON(getStateFilePath()) as StateFile;
+        if (data.version === STATE_VERSION) {
+            state = { version: STATE_VERSION, episodes: data.episodes || {}, paths: data.paths || {} };
+            return state;
+        }
+    } catch {
+        // 状态文件不存在或损坏时从空状态开始
+    }
+    state = { version: STATE_VERSION, episodes: {}, paths: {} };
+    return state;
+}
+
+/** 把剧集状态写回磁盘（仅在有变化时），先写临时文件再改名，避免中途退出损坏状态 */
+export async function flushEpisodeState(): Promise<void> {
+    if (!state || !stateDirty) return;
+    const filePath = getStateFilePath();
+    const tmpPath = `${filePath}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJSON(tmpPath, state, { spaces: 2 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+    stateDirty = false;
+}
+
+async function computeFingerprint(filePath: string, size: number): Promise<string> {
+    const hash = crypto.createHash('sha1');
+    hash.update(String(size));
+    const fd = await fs.open(filePath, 'r');
+    try {
+        const headLength = Math.min(FINGERPRINT_CHUNK_BYTES, size);
+        const head = Buffer.alloc(headLength);
+        await fs.read(fd, head, 0, headLength, 0);
+        hash.update(head);
+
+        if (size > FINGERPRINT_CHUNK_BYTES) {
+            const tailLength = Math.min(FINGERPRINT_CHUNK_BYTES, size - FINGERPRINT_CHUNK_BYTES);
+            const tail = Buffer.alloc(tailLength);
+            await fs.read(fd, tail, 0, tailLength, size - tailLength);
+            hash.update(tail);
+        }
+    } finally {
+        await fs.close(fd);
+    }
+    return hash.digest('hex');
+}
+
+async function getFingerprint(current: StateFile, filePath: string, readOnly: boolean): Promise<string> {
+    const stat = await fs.stat(filePath);
+    const cached = current.paths[filePath];
+    if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+        return cached.fingerprint;
+    }
+    const fingerprint = await computeFingerprint(filePath, stat.size);
+    if (!readOnly) {
+        current.paths[filePath] = { size: stat.size, mtimeMs: stat.mtimeMs, fingerprint };
+        stateDirty = true;
+    }
+    return fingerprint;
+}
+
+/**
+ * 获取（必要时创建）剧集的持久状态
+ * 以内容指纹为键，文件改名、移动或更换 BASE_URL 后 GUID 和首次发现时间保持不变
+ * readOnly 时不修改状态：新文件得到一个临时档案，不会被保存
+ */
+export async function resolveEpisodeState(filePath: string, readOnly = false): Promise<EpisodeState> {
+    const current = await loadState();
+    let key = await getFingerprint(current, filePath, readOnly);
+    let record = current.episodes[key];
+
+    // 同一内容的多个副本：原位置仍存在时，为副本单独建档
+    if (record && record.lastPath !== filePath && await fs.pathExists(record.lastPath)) {
+        key = `${key}:${filePath}`;
+        record = current.episodes[key];
+    }
+
+    if (!record) {
+        record = {
+            guid: crypto.randomUUID(),
+            firstSeen: new Date().toISOString(),
+            lastPath: filePath
+        };
+        if (readOnly) return record;
+        current.episodes[key] = record;
+        stateDirty = true;
+    } else if (record.lastPath !== filePath && !readOnly) {
+        record.lastPath = filePath;
+        stateDirty = true;
+    }
+
+    return record;
+}
+
+/** RFC 4122 UUIDv5（SHA-1，基于命名空间 UUID 和名称），同样的输入总是得到同样的 UUID */
+export function uuidV5(name: string, namespace: string): string {
+    const namespaceBytes = Buffer.from(namespace.replace(/-/g, ''), 'hex');
+    const hash = crypto.createHash('sha1').update(namespaceBytes).update(name, 'utf8').digest();
+    hash[6] = (hash[6] & 0x0f) | 0x50;
+    hash[8] = (hash[8] & 0x3f) | 0x80;
+    const hex = hash.subarray(0, 16).toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
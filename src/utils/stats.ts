@@ -0,0 +1,274 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// 收听统计：按 IAB 播客测量规范统计去重下载数，同时记录传输流量和各客户端的 feed 请求
+// 每天的汇总保存在 .stats/<日期>.json，原始请求和 IP 不落盘
+
+const STATS_VERSION = 1;
+
+// 同一听众（IP + User-Agent）对同一剧集 24 小时内的多次请求只算一次下载
+const DEDUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// 传输不足一分钟音频的请求（如客户端探测文件头）不算下载；不知道时长时按 128 kbps 估算
+const MIN_LISTEN_SECONDS = 60;
+const DEFAULT_BYTES_PER_SECOND = 128 * 1000 / 8;
+
+// 爬虫、监控和命令行工具不计入下载
+const BOT_PATTERN = /bot\b|bot\/|crawler|spider|slurp|curl\/|wget\/|python-requests|python-urllib|go-http-client|headlesschrome|uptime|monitor/i;
+
+// 常见播客客户端的 User-Agent，按顺序匹配（浏览器放在最后）
+const CLIENT_APPS: Array<[RegExp, string]> = [
+    [/AntennaPod/i, 'AntennaPod'],
+    [/Pocket ?Casts/i, 'Pocket Casts'],
+    [/Overcast/i, 'Overcast'],
+    [/Castro/i, 'Castro'],
+    [/gPodder/i, 'gPodder'],
+    [/PodcastAddict/i, 'Podcast Addict'],
+    [/CastBox/i, 'Castbox'],
+    [/Player ?FM/i, 'Player FM'],
+    [/Moon ?FM/i, 'Moon FM'],
+    [/Spotify/i, 'Spotify'],
+    [/xiaoyuzhou|小宇宙/i, '小宇宙'],
+    [/^Podcasts\/|iTunes|AppleCoreMedia|Apple ?Podcasts/i, 'Apple Podcasts'],
+    [/VLC/i, 'VLC'],
+    [/Mozilla\//, 'Web 浏览器']
+];
+
+export interface EpisodeStats {
+    title: string;
+    downloads: number;
+    bytes: number;
+}
+
+interface PodcastDayStats {
+    downloads: number;
+    bytes: number;
+    // 以播客目录内的相对路径为键
+    episodes: Record<string, EpisodeStats>;
+    // 客户端名称 -> feed 请求次数
+    feedPolls: Record<string, number>;
+}
+
+interface DailyRollup {
+    version: number;
+    date: string;
+    podcasts: Record<string, PodcastDayStats>;
+}
+
+export interface PodcastStats {
+    dirName: string;
+    downloads: number;
+    bytes: number;
+    feedPolls: Record<string, number>;
+    episodes: Array<EpisodeStats & { file: string }>;
+}
+
+export interface StatsReport {
+    from: string;
+    to: string;
+    days: Array<{ date: string; downloads: number; bytes: number; feedPolls: number }>;
+    podcasts: PodcastStats[];
+}
+
+// 某个听众在 24 小时窗口内对一个剧集的请求
+interface ListenerWindow {
+    start: number;
+    bytes: number;
+    counted: boolean;
+}
+
+// 已加载的每日汇总（最近几天），以日期为键；并发记录时共用同一个加载过程
+const rollups = new Map<string, Promise<DailyRollup>>();
+const dirtyDates = new Set<string>();
+const listenerWindows = new Map<string, ListenerWindow>();
+
+function getStatsDir(): string {
+    return path.join(process.cwd(), '.stats');
+}
+
+function getRollupPath(date: string): string {
+    return path.join(getStatsDir(), `${date}.json`);
+}
+
+/** 本地时区的日期 YYYY-MM-DD */
+export function formatStatsDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+async function readRollup(date: string): Promise<DailyRollup> {
+    try {
+        const data = await fs.readJSON(getRollupPath(date)) as DailyRollup;
+        if (data.version === STATS_VERSION) return data;
+    } catch {
+        // 当天还没有统计数据
+    }
+    return { version: STATS_VERSION, date, podcasts: {} };
+}
+
+function loadRollup(date: string): Promise<DailyRollup> {
+    let rollup = rollups.get(date);
+    if (!rollup) {
+        rollup = readRollup(date);
+        rollups.set(date, rollup);
+    }
+    return rollup;
+}
+
+async function updatePodcastStats(dirName: string, now: Date, change: (stats: PodcastDayStats) => void): Promise<void> {
+    const date = formatStatsDate(now);
+    const rollup = await loadRollup(date);
+    const stats = rollup.podcasts[dirName] ??= { downloads: 0, bytes: 0, episodes: {}, feedPolls: {} };
+    change(stats);
+    dirtyDates.add(date);
+}
+
+export function isBot(userAgent: string | undefined): boolean {
+    return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/** 由 User-Agent 识别客户端名称 */
+export function getClientApp(userAgent: string | undefined): string {
+    const match = CLIENT_APPS.find(([pattern]) => pattern.test(userAgent || ''));
+    return match ? match[1] : '其他';
+}
+
+/** 听众标识：IP 与 User-Agent 的哈希，只保存在内存中 */
+export function getListenerId(ip: string, userAgent: string | undefined): string {
+    return crypto.createHash('sha256').update(`${ip}\n${userAgent || ''}`).digest('base64url');
+}
+
+/** 一分钟音频对应的字节数，作为一次下载的最小传输量；文件比一分钟短时为整个文件 */
+export function getMinDownloadBytes(fileSize: number, duration?: number): number {
+    const bytesPerSecond = duration && duration > 0 ? fileSize / duration : DEFAULT_BYTES_PER_SECOND;
+    return Math.min(fileSize, Math.ceil(bytesPerSecond * MIN_LISTEN_SECONDS));
+}
+
+/**
+ * 记录一次音频请求（完整请求或 Range 请求）
+ * 传输量累加到当天；同一听众在 24 小时内累计传输超过一分钟音频时记一次下载
+ */
+export async function recordAudioRequest(params: {
+    dirName: string;
+    file: string;
+    title: string;
+    listener: string;
+    bytes: number;
+    minBytes: number;
+}, now: Date = new Date()): Promise<void> {
+    const { dirName, file, title, listener, bytes, minBytes } = params;
+    const key = `${dirName}/${file}\n${listener}`;
+    let window = listenerWindows.get(key);
+    if (!window || now.getTime() - window.start >= DEDUP_WINDOW_MS) {
+        window = { start: now.getTime(), bytes: 0, counted: false };
+        listenerWindows.set(key, window);
+    }
+    window.bytes += bytes;
+    const isNewDownload = !window.counted && window.bytes >= minBytes;
+    if (isNewDownload) {
+        window.counted = true;
+    }
+
+    await updatePodcastStats(dirName, now, stats => {
+        const episode = stats.episodes[file] ??= { title, downloads: 0, bytes: 0 };
+        episode.title = title;
+        episode.bytes += bytes;
+        stats.bytes += bytes;
+        if (isNewDownload) {
+            episode.downloads += 1;
+            stats.downloads += 1;
+        }
+    });
+}
+
+/** 记录一次 feed 请求（包括 304） */
+export async function recordFeedPoll(dirName: string, app: string, now: Date = new Date()): Promise<void> {
+    await updatePodcastStats(dirName, now, stats => {
+        stats.feedPolls[app] = (stats.feedPolls[app] || 0) + 1;
+    });
+}
+
+/** 把有变化的每日汇总写回磁盘，并清理过期的去重窗口和不再更新的旧汇总 */
+export async function flushStats(now: Date = new Date()): Promise<void> {
+    for (const date of [...dirtyDates]) {
+        dirtyDates.delete(date);
+        const rollup = await loadRollup(date);
+        const filePath = getRollupPath(date);
+        const tmpPath = `${filePath}.tmp`;
+        await fs.ensureDir(path.dirname(filePath));
+        await fs.writeJSON(tmpPath, rollup);
+        await fs.move(tmpPath, filePath, { overwrite: true });
+    }
+
+    for (const [key, window] of listenerWindows) {
+        if (now.getTime() - window.start >= DEDUP_WINDOW_MS) {
+            listenerWindows.delete(key);
+        }
+    }
+    // 去重窗口跨越午夜，保留昨天和今天的汇总
+    const yesterday = formatStatsDate(new Date(now.getTime() - DEDUP_WINDOW_MS));
+    for (const date of rollups.keys()) {
+        if (date < yesterday && !dirtyDates.has(date)) {
+            rollups.delete(date);
+        }
+    }
+}
+
+function addCounts(target: Record<string, number>, source: Record<string, number>): void {
+    for (const [key, count] of Object.entries(source)) {
+        target[key] = (target[key] || 0) + count;
+    }
+}
+
+/** 汇总 from 至 to（含）每天的统计，可只看一个播客 */
+export async function getStatsReport(from: string, to: string, podcast?: string): Promise<StatsReport> {
+    const days: StatsReport['days'] = [];
+    const podcasts = new Map<string, PodcastStats>();
+    const episodes = new Map<string, Map<string, EpisodeStats>>();
+
+    for (let day = new Date(`${from}T00:00:00`); formatStatsDate(day) <= to; day.setDate(day.getDate() + 1)) {
+        const date = formatStatsDate(day);
+        const rollup = await (rollups.get(date) ?? readRollup(date));
+        const total = { date, downloads: 0, bytes: 0, feedPolls: 0 };
+
+        for (const [dirName, stats] of Object.entries(rollup.podcasts)) {
+            if (podcast && dirName !== podcast) continue;
+            total.downloads += stats.downloads;
+            total.bytes += stats.bytes;
+            total.feedPolls += Object.values(stats.feedPolls).reduce((sum, count) => sum + count, 0);
+
+            const summary = podcasts.get(dirName) ?? { dirName, downloads: 0, bytes: 0, feedPolls: {}, episodes: [] };
+            podcasts.set(dirName, summary);
+            summary.downloads += stats.downloads;
+            summary.bytes += stats.bytes;
+            addCounts(summary.feedPolls, stats.feedPolls);
+
+            const episodeTotals = episodes.get(dirName) ?? new Map<string, EpisodeStats>();
+            episodes.set(dirName, episodeTotals);
+            for (const [file, episode] of Object.entries(stats.episodes)) {
+                const current = episodeTotals.get(file) ?? { title: episode.title, downloads: 0, bytes: 0 };
+                // 以最近一天的标题为准
+                episodeTotals.set(file, {
+                    title: episode.title,
+                    downloads: current.downloads + episode.downloads,
+                    bytes: current.bytes + episode.bytes
+                });
+            }
+        }
+        days.push(total);
+    }
+
+    for (const summary of podcasts.values()) {
+        summary.episodes = [...(episodes.get(summary.dirName) ?? new Map<string, EpisodeStats>())]
+            .map(([file, episode]) => ({ file, ...episode }))
+            .sort((a, b) => b.downloads - a.downloads || a.file.localeCompare(b.file));
+    }
+
+    return {
+        from,
+        to,
+        days,
+        podcasts: [...podcasts.values()].sort((a, b) => b.downloads - a.downloads || b.bytes - a.bytes)
+    };
+}
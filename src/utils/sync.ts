@@ -0,0 +1,329 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { AccessToken, findActiveToken } from './auth';
+import { EpisodeListing } from './listing';
+
+// gpodder.net v2 API（AntennaPod、gPodder 等客户端的同步协议）的本地实现：设备、订阅和剧集动作
+// 用户即访问令牌：用户名为令牌名称，密码为令牌本身
+
+const SYNC_VERSION = 1;
+
+export const EPISODE_ACTIONS = ['download', 'delete', 'play', 'new', 'flattr'] as const;
+export type EpisodeActionType = typeof EPISODE_ACTIONS[number];
+
+export const DEVICE_TYPES = ['desktop', 'laptop', 'mobile', 'server', 'other'] as const;
+
+// 播放位置距结尾不超过此秒数时视为已听完
+const FINISHED_TOLERANCE_SECONDS = 5;
+
+export interface SyncDevice {
+    id: string;
+    caption: string;
+    type: string;
+}
+
+// 剧集动作，字段与 gpodder API 相同；timestamp 为客户端记录的 UTC 时间（YYYY-MM-DDTHH:MM:SS）
+export interface EpisodeAction {
+    podcast: string;
+    episode: string;
+    guid?: string;
+    device?: string;
+    action: EpisodeActionType;
+    timestamp: string;
+    started?: number;
+    position?: number;
+    total?: number;
+}
+
+// 订阅地址最近一次变化
+interface SubscriptionChange {
+    action: 'add' | 'remove';
+    at: number;
+}
+
+interface StoredEpisodeAction extends EpisodeAction {
+    at: number;  // 上传时的同步时间戳，用于 ?since= 增量同步
+}
+
+interface UserSyncData {
+    version: number;
+    // 同步时间戳（秒），每次上传递增，保证 since 之后的变化不会遗漏
+    clock: number;
+    devices: Record<string, SyncDevice>;
+    // 同一用户的所有设备共用一份订阅列表（相当于 gpodder.net 的设备同步组）
+    subscriptions: Record<string, SubscriptionChange>;
+    episodeActions: StoredEpisodeAction[];
+}
+
+export interface EpisodeProgress {
+    position: number;
+    total?: number;
+    finished: boolean;
+    device?: string;
+    updatedAt: string;
+}
+
+const users = new Map<string, UserSyncData>();
+// 同一用户的写入排队执行，避免并发上传相互覆盖
+const writeQueues = new Map<string, Promise<unknown>>();
+// 登录后的会话（sessionid Cookie -> 登录时使用的令牌），重启后需要重新登录，客户端通常同时发送 Basic 认证
+const sessions = new Map<string, string>();
+
+function getSyncDir(): string {
+    return path.join(process.cwd(), '.sync');
+}
+
+function getUserFilePath(user: string): string {
+    return path.join(getSyncDir(), `${encodeURIComponent(user)}.json`);
+}
+
+async function loadUser(user: string): Promise<UserSyncData> {
+    const cached = users.get(user);
+    if (cached) return cached;
+
+    let data: UserSyncData = { version: SYNC_VERSION, clock: 0, devices: {}, subscriptions: {}, episodeActions: [] };
+    try {
+        const stored = await fs.readJSON(getUserFilePath(user)) as UserSyncData;
+        if (stored.version === SYNC_VERSION) {
+            data = stored;
+        }
+    } catch {
+        // 还没有同步过
+    }
+    users.set(user, data);
+    return data;
+}
+
+async function saveUser(user: string, data: UserSyncData): Promise<void> {
+    const filePath = getUserFilePath(user);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJSON(tmpPath, data, { spaces: 2 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+}
+
+// 修改用户数据并写回磁盘，返回本次修改的同步时间戳
+function updateUser(user: string, change: (data: UserSyncData, at: number) => void): Promise<number> {
+    const previous = writeQueues.get(user) ?? Promise.resolve();
+    const task = previous.catch(() => undefined).then(async () => {
+        const data = await loadUser(user);
+        const at = Math.max(Math.floor(Date.now() / 1000), data.clock + 1);
+        change(data, at);
+        data.clock = at;
+        await saveUser(user, data);
+        return at;
+    });
+    writeQueues.set(user, task);
+    return task;
+}
+
+/** 有同步数据的用户 */
+export async function listSyncUsers(): Promise<string[]> {
+    const files = await fs.readdir(getSyncDir()).catch(() => [] as string[]);
+    return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+}
+
+/**
+ * 校验 Authorization: Basic（用户名为令牌名称，密码为令牌）或登录后的 sessionid，返回所用的令牌
+ * 已吊销的令牌不能再同步，用它登录的会话也随之失效
+ */
+export async function authenticateSyncUser(authorization: string | undefined, sessionId: string | undefined): Promise<AccessToken | null> {
+    const match = (authorization || '').match(/^Basic\s+(.+)$/i);
+    if (match) {
+        const decoded = Buffer.from(match[1].trim(), 'base64').toString('utf8');
+        const separator = decoded.indexOf(':');
+        if (separator < 0) return null;
+        const user = decoded.slice(0, separator);
+        const password = decoded.slice(separator + 1);
+        const token = await findActiveToken(password);
+        return token && token.name === user ? token : null;
+    }
+
+    const value = sessionId ? sessions.get(sessionId) : undefined;
+    if (!sessionId || !value) return null;
+    // 每次请求都重新检查登录时的令牌，而不是同名的任意令牌
+    const token = await findActiveToken(value);
+    if (!token) {
+        sessions.delete(sessionId);
+        return null;
+    }
+    return token;
+}
+
+export function createSession(token: AccessToken): string {
+    const sessionId = crypto.randomBytes(18).toString('base64url');
+    sessions.set(sessionId, token.token);
+    return sessionId;
+}
+
+export function removeSession(sessionId: string | undefined): void {
+    if (sessionId) sessions.delete(sessionId);
+}
+
+export async function listDevices(user: string): Promise<Array<SyncDevice & { subscriptions: number }>> {
+    const data = await loadUser(user);
+    const subscriptions = Object.values(data.subscriptions).filter(change => change.action === 'add').length;
+    return Object.values(data.devices).map(device => ({ ...device, subscriptions }));
+}
+
+/** 创建或修改设备，未指定的字段保持不变 */
+export async function updateDevice(user: string, id: string, settings: { caption?: string; type?: string }): Promise<void> {
+    await updateUser(user, data => {
+        const device = data.devices[id] ?? { id, caption: id, type: 'other' };
+        data.devices[id] = {
+            ...device,
+            ...(settings.caption !== undefined ? { caption: settings.caption } : {}),
+            ...(settings.type !== undefined ? { type: settings.type } : {})
+        };
+    });
+}
+
+// 上传订阅或剧集动作时自动登记未知设备
+function registerDevice(data: UserSyncData, id: string | undefined): void {
+    if (id && !data.devices[id]) {
+        data.devices[id] = { id, caption: id, type: 'other' };
+    }
+}
+
+/** since 之后新增和取消的订阅 */
+export async function getSubscriptionChanges(user: string, since: number): Promise<{ add: string[]; remove: string[]; timestamp: number }> {
+    const data = await loadUser(user);
+    const changes = Object.entries(data.subscriptions).filter(([, change]) => change.at > since);
+    return {
+        add: changes.filter(([, change]) => change.action === 'add').map(([url]) => url),
+        remove: changes.filter(([, change]) => change.action === 'remove').map(([url]) => url),
+        timestamp: data.clock
+    };
+}
+
+export async function uploadSubscriptionChanges(user: string, device: string, add: string[], remove: string[]): Promise<number> {
+    return updateUser(user, (data, at) => {
+        registerDevice(data, device);
+        add.forEach(url => { data.subscriptions[url] = { action: 'add', at }; });
+        remove.forEach(url => { data.subscriptions[url] = { action: 'remove', at }; });
+    });
+}
+
+// 客户端的时间戳不带时区，按 UTC 处理
+function parseActionTimestamp(value: string): Date {
+    return new Date(/(Z|[+-]\d{2}:?\d{2})$/i.test(value) ? value : `${value}Z`);
+}
+
+/** 校验上传的剧集动作，返回错误信息，合法时返回 null */
+export function checkEpisodeActions(actions: unknown): string | null {
+    if (!Array.isArray(actions)) return 'Request body must be an array of episode actions';
+    for (const action of actions as Array<Record<string, unknown>>) {
+        if (typeof action?.podcast !== 'string' || typeof action.episode !== 'string') {
+            return 'Episode actions require podcast and episode';
+        }
+        if (!EPISODE_ACTIONS.includes(action.action as EpisodeActionType)) {
+            return `Invalid episode action: ${action.action}`;
+        }
+        if (action.timestamp !== undefined && (typeof action.timestamp !== 'string' || Number.isNaN(parseActionTimestamp(action.timestamp).getTime()))) {
+            return `Invalid timestamp: ${action.timestamp}`;
+        }
+        for (const field of ['started', 'position', 'total']) {
+            if (action[field] !== undefined && (typeof action[field] !== 'number' || (action[field] as number) < 0)) {
+                return `Invalid ${field}: ${action[field]}`;
+            }
+        }
+    }
+    return null;
+}
+
+// 同一剧集、设备、动作只保留最新的一条（客户端同步只关心最新状态）
+function getActionKey(action: EpisodeAction): string {
+    return JSON.stringify([action.podcast, action.episode, action.device ?? '', action.action]);
+}
+
+export async function uploadEpisodeActions(user: string, actions: EpisodeAction[]): Promise<number> {
+    return updateUser(user, (data, at) => {
+        const latest = new Map(data.episodeActions.map(action => [getActionKey(action), action]));
+        for (const action of actions) {
+            registerDevice(data, action.device);
+            const stored: StoredEpisodeAction = {
+                podcast: action.podcast,
+                episode: action.episode,
+                ...(action.guid ? { guid: action.guid } : {}),
+                ...(action.device ? { device: action.device } : {}),
+                action: action.action,
+                timestamp: (action.timestamp ? parseActionTimestamp(action.timestamp) : new Date()).toISOString().slice(0, 19),
+                ...(action.started !== undefined ? { started: action.started } : {}),
+                ...(action.position !== undefined ? { position: action.position } : {}),
+                ...(action.total !== undefined ? { total: action.total } : {}),
+                at
+            };
+            const key = getActionKey(stored);
+            const existing = latest.get(key);
+            if (!existing || existing.timestamp <= stored.timestamp) {
+                latest.set(key, stored);
+            }
+        }
+        data.episodeActions = [...latest.values()];
+    });
+}
+
+/**
+ * since 之后上传的剧集动作，可按播客（feed 地址）和设备筛选
+ * aggregated 时每个剧集只返回最新的一条
+ */
+export async function getEpisodeActions(user: string, options: { since: number; podcast?: string; device?: string; aggregated?: boolean }): Promise<{ actions: EpisodeAction[]; timestamp: number }> {
+    const data = await loadUser(user);
+    let actions = data.episodeActions
+        .filter(action => action.at > options.since)
+        .filter(action => !options.podcast || action.podcast === options.podcast)
+        .filter(action => !options.device || action.device === options.device)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    if (options.aggregated) {
+        const latest = new Map(actions.map(action => [`${action.podcast}\n${action.episode}`, action]));
+        actions = [...latest.values()];
+    }
+    return {
+        actions: actions.map(({ at, ...action }) => action),
+        timestamp: data.clock
+    };
+}
+
+// 剧集地址只比较路径和章节片段：不同设备使用的主机名、令牌可能不同
+function normalizeEpisodeUrl(url: string): string {
+    try {
+        const parsed = new URL(url, 'http://localhost');
+        return decodeURIComponent(parsed.pathname) + parsed.hash;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * 用户在各剧集上的播放进度（最新的 play 动作），以剧集 id 为键
+ * 按 guid 或音频地址对应到剧集
+ */
+export async function getEpisodeProgress(user: string, episodes: EpisodeListing[]): Promise<Map<string, EpisodeProgress>> {
+    const data = await loadUser(user);
+    const byGuid = new Map(episodes.map(episode => [episode.id, episode]));
+    const byUrl = new Map(episodes.map(episode => [normalizeEpisodeUrl(episode.url), episode]));
+
+    const progress = new Map<string, EpisodeProgress>();
+    for (const action of data.episodeActions) {
+        if (action.action !== 'play' || action.position === undefined) continue;
+        const episode = (action.guid && byGuid.get(action.guid)) || byUrl.get(normalizeEpisodeUrl(action.episode));
+        if (!episode) continue;
+
+        const updatedAt = parseActionTimestamp(action.timestamp).toISOString();
+        const existing = progress.get(episode.id);
+        if (existing && existing.updatedAt >= updatedAt) continue;
+        const total = action.total || episode.duration;
+        progress.set(episode.id, {
+            position: action.position,
+            ...(total ? { total } : {}),
+            finished: Boolean(total && action.position >= total - FINISHED_TOLERANCE_SECONDS),
+            ...(action.device ? { device: action.device } : {}),
+            updatedAt
+        });
+    }
+    return progress;
+}
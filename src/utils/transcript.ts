@@ -0,0 +1,144 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Episode } from '../types';
+
+// 转录片段，时间单位为秒（与 Podcasting 2.0 JSON 转录格式一致）
+export interface TranscriptSegment {
+    startTime: number;
+    endTime?: number;
+    speaker?: string;
+    body: string;
+}
+
+export interface Transcript {
+    fileName: string;
+    filePath: string;
+    url: string;
+    type: string;
+}
+
+// 与音频同名的转录文件及其在 podcast:transcript 中的 MIME 类型
+export const TRANSCRIPT_TYPES: Record<string, string> = {
+    vtt: 'text/vtt',
+    srt: 'application/x-subrip',
+    json: 'application/json'
+};
+
+// 00:01:02,500（SRT）/ 01:02.500（VTT）
+function parseTimestamp(value: string): number | undefined {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+    if (!match) return undefined;
+    const [, h, m, s, ms] = match;
+    return parseInt(h || '0', 10) * 3600
+        + parseInt(m, 10) * 60
+        + parseInt(s, 10)
+        + (ms ? parseInt(ms.padEnd(3, '0'), 10) / 1000 : 0);
+}
+
+/** 解析 SRT / WebVTT 字幕，两者的时间轴格式基本相同 */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) continue;  // WEBVTT 头、NOTE、STYLE 等
+
+        const [start, end] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+        const startTime = parseTimestamp(start);
+        if (startTime === undefined) continue;
+
+        let text = lines.slice(timingIndex + 1).join(' ').trim();
+        // WebVTT 说话人：<v 张三>内容</v>
+        const voice = text.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+        text = text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+
+        segments.push({
+            startTime,
+            endTime: parseTimestamp(end),
+            ...(voice ? { speaker: voice[1].trim() } : {}),
+            body: text
+        });
+    }
+
+    return segments;
+}
+
+/**
+ * 解析 JSON 转录：Whisper 输出（segments[].start/end/text）或 Podcasting 2.0 格式（segments[].startTime/endTime/body）
+ * 不是转录格式的 JSON（如剧集配置）返回 null
+ */
+export function parseJsonTranscript(content: string): TranscriptSegment[] | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch {
+        return null;
+    }
+    const rawSegments = (data as { segments?: unknown })?.segments;
+    if (!Array.isArray(rawSegments)) return null;
+
+    const segments: TranscriptSegment[] = [];
+    for (const raw of rawSegments as Array<Record<string, unknown>>) {
+        const startTime = Number(raw?.startTime ?? raw?.start);
+        const body = String(raw?.body ?? raw?.text ?? '').trim();
+        if (!Number.isFinite(startTime) || !body) continue;
+        const endTime = Number(raw.endTime ?? raw.end);
+        segments.push({
+            startTime,
+            ...(Number.isFinite(endTime) ? { endTime } : {}),
+            ...(typeof raw.speaker === 'string' && raw.speaker ? { speaker: raw.speaker } : {}),
+            body
+        });
+    }
+    return segments;
+}
+
+/** 读取并解析转录文件，无法解析时返回 null */
+export async function readTranscriptSegments(filePath: string): Promise<TranscriptSegment[] | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+    if (path.extname(filePath).toLowerCase() === '.json') {
+        return parseJsonTranscript(content);
+    }
+    return parseSubtitles(content);
+}
+
+/**
+ * 查找与音频同名的转录文件（episode.vtt / episode.srt / episode.json）
+ * 字幕文件直接引用原文件；JSON 只有包含 segments 时才视为转录，并通过 jsonUrl 指向转换后的标准格式
+ */
+export async function findTranscripts(
+    episode: Episode,
+    fileUrl: (filePath: string) => string,
+    jsonUrl: (filePath: string) => string
+): Promise<Transcript[]> {
+    const dirPath = path.dirname(episode.filePath);
+    const stem = episode.fileName.replace(/\.[^/.]+$/, '');
+    const transcripts: Transcript[] = [];
+
+    for (const [ext, type] of Object.entries(TRANSCRIPT_TYPES)) {
+        const fileName = `${stem}.${ext}`;
+        const filePath = path.join(dirPath, fileName);
+        if (!await fs.pathExists(filePath)) continue;
+        if (ext === 'json') {
+            if (!await readTranscriptSegments(filePath)) continue;
+            transcripts.push({ fileName, filePath, url: jsonUrl(filePath), type });
+        } else {
+            transcripts.push({ fileName, filePath, url: fileUrl(filePath), type });
+        }
+    }
+
+    return transcripts;
+}
+
+/** Podcasting 2.0 JSON 转录格式 */
+export function toTranscriptJson(segments: TranscriptSegment[]): { version: string; segments: TranscriptSegment[] } {
+    return { version: '1.0.0', segments };
+}
@@ -0,0 +1,159 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Episode, PodcastSource, VirtualFeedDefinition } from '../types';
+import { LibraryRoot } from './env';
+import { DEFAULT_CONFIG } from './config';
+import { getReleasedEpisodes } from './schedule';
+import { reportWarning } from './diagnostics';
+
+// 媒体库根目录下的虚拟 feed 定义文件：{ "feeds": [{ "id": "this-week", "title": "本周更新", "recentDays": 7 }] }
+export const VIRTUAL_FEEDS_FILE = 'feeds.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/** 校验单个定义，无效时上报警告并返回 null，不影响其他虚拟 feed */
+function sanitizeDefinition(raw: unknown, origin: string): VirtualFeedDefinition | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        reportWarning(`Ignoring virtual feed in ${origin}: expected a JSON object`, origin);
+        return null;
+    }
+    const input = raw as Record<string, unknown>;
+    const id = typeof input.id === 'string' ? input.id.trim() : '';
+    if (!id || id.startsWith('.') || /[/\\?#]/.test(id)) {
+        reportWarning(`Ignoring virtual feed in ${origin}: "id" must be a non-empty name without / ? #`, origin);
+        return null;
+    }
+    if (typeof input.title !== 'string' || !input.title.trim()) {
+        reportWarning(`Ignoring virtual feed "${id}" in ${origin}: "title" is required`, origin);
+        return null;
+    }
+
+    const definition: VirtualFeedDefinition = { id, title: input.title.trim() };
+    for (const key of ['description', 'author', 'coverImageUrl'] as const) {
+        if (input[key] === undefined) continue;
+        if (typeof input[key] === 'string') definition[key] = input[key] as string;
+        else reportWarning(`Ignoring invalid "${key}" in virtual feed "${id}" (${origin})`, origin);
+    }
+    for (const key of ['podcasts', 'tags', 'roots'] as const) {
+        if (input[key] === undefined) continue;
+        if (isStringArray(input[key])) definition[key] = input[key] as string[];
+        else reportWarning(`Ignoring invalid "${key}" in virtual feed "${id}" (${origin})`, origin);
+    }
+    if (input.recentDays !== undefined) {
+        if (typeof input.recentDays === 'number' && input.recentDays > 0) definition.recentDays = input.recentDays;
+        else reportWarning(`Ignoring invalid "recentDays" in virtual feed "${id}" (${origin})`, origin);
+    }
+    return definition;
+}
+
+/** 读取所有根目录中的 feeds.json，id 重复时以先出现的为准 */
+export async function loadVirtualFeeds(roots: LibraryRoot[]): Promise<VirtualFeedDefinition[]> {
+    const definitions: VirtualFeedDefinition[] = [];
+    for (const root of roots) {
+        const filePath = path.join(root.path, VIRTUAL_FEEDS_FILE);
+        if (!await fs.pathExists(filePath)) continue;
+
+        let data: unknown;
+        try {
+            data = await fs.readJSON(filePath);
+        } catch (error) {
+            reportWarning(`Failed to read virtual feeds from ${filePath}:`, filePath, error);
+            continue;
+        }
+        const feeds = (data as { feeds?: unknown })?.feeds;
+        if (!Array.isArray(feeds)) {
+            reportWarning(`Ignoring ${filePath}: expected { "feeds": [...] }`, filePath);
+            continue;
+        }
+
+        for (const raw of feeds) {
+            const definition = sanitizeDefinition(raw, filePath);
+            if (!definition) continue;
+            if (definitions.some(d => d.id === definition.id)) {
+                reportWarning(`Ignoring duplicate virtual feed "${definition.id}" in ${filePath}`, filePath);
+                continue;
+            }
+            definitions.push(definition);
+        }
+    }
+    return definitions;
+}
+
+/** 剧集加入播客的时间：排期解锁时间，其次是首次发现时间，最后是发布时间 */
+export function getEpisodeAddedDate(episode: Episode): Date {
+    return episode.releaseDate ?? episode.firstSeen ?? episode.pubDate;
+}
+
+/** 按目录名、标签、根目录筛选虚拟 feed 包含的播客 */
+export function selectVirtualFeedSources(definition: VirtualFeedDefinition, sources: Iterable<PodcastSource>): PodcastSource[] {
+    return Array.from(sources).filter(source =>
+        (!definition.podcasts || definition.podcasts.includes(source.dirName)) &&
+        (!definition.tags || definition.tags.some(tag => source.config.tags.includes(tag))) &&
+        (!definition.roots || (source.root !== undefined && definition.roots.includes(source.root)))
+    );
+}
+
+/**
+ * 构建虚拟 feed 对应的播客源：汇总各播客已解锁的剧集（按发布时间排序），
+ * 标题前加上所属播客名，季信息去掉（不同播客的季号没有可比性）
+ */
+export function buildVirtualSource(
+    definition: VirtualFeedDefinition,
+    sources: Iterable<PodcastSource>,
+    now: Date = new Date()
+): PodcastSource {
+    const since = definition.recentDays !== undefined ? now.getTime() - definition.recentDays * DAY_MS : null;
+    const episodeSources = new Map<Episode, PodcastSource>();
+
+    for (const source of selectVirtualFeedSources(definition, sources)) {
+        for (const episode of getReleasedEpisodes(source, now)) {
+            if (since !== null && getEpisodeAddedDate(episode).getTime() < since) continue;
+            episodeSources.set({
+                ...episode,
+                title: `${source.config.title}｜${episode.title}`,
+                season: undefined,
+                seasonName: undefined
+            }, source);
+        }
+    }
+
+    const episodes = Array.from(episodeSources.keys())
+        .sort((a, b) => a.pubDate.getTime() - b.pubDate.getTime());
+
+    return {
+        dirName: definition.id,
+        dirPath: '',
+        config: {
+            ...DEFAULT_CONFIG,
+            title: definition.title,
+            description: definition.description || definition.title,
+            author: definition.author || DEFAULT_CONFIG.author,
+            coverImageUrl: definition.coverImageUrl || '',
+            tags: definition.tags || []
+        },
+        episodes,
+        coverUrl: definition.coverImageUrl || undefined,
+        virtual: definition,
+        episodeSources
+    };
+}
+
+/** 最近一集移出「最近 N 天」窗口的时间，到时需要重新生成虚拟 feed */
+export function getNextVirtualFeedExpiry(sources: Iterable<PodcastSource>, now: Date = new Date()): Date | null {
+    let next: number | null = null;
+    for (const source of sources) {
+        const recentDays = source.virtual?.recentDays;
+        if (recentDays === undefined) continue;
+        for (const episode of source.episodes) {
+            const expiry = getEpisodeAddedDate(episode).getTime() + recentDays * DAY_MS;
+            if (expiry > now.getTime() && (next === null || expiry < next)) {
+                next = expiry;
+            }
+        }
+    }
+    return next !== null ? new Date(next) : null;
+}
@@ -1,5 +1,7 @@
 import chokidar from 'chokidar';
+import path from 'path';
 import { PodcastServer } from '../server';
+import { LibraryRoot } from './env';
 
 function debounce<T extends (...args: any[]) => any>(
     fn: T,
@@ -19,15 +21,46 @@ function debounce<T extends (...args: any[]) => any>(
     };
 }
 
+// 把变化的文件路径映射为所属的播客目录（根目录下的一级目录名）
+// 根目录中的 feeds.json 也按此返回，由 server 重新生成虚拟 feed
+function getPodcastDir(roots: LibraryRoot[], changedPath: string): string | null {
+    for (const root of roots) {
+        const relative = path.relative(root.path, changedPath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            continue;
+        }
+        return relative.split(path.sep)[0];
+    }
+    return null;
+}
+
 export function watchFolderChanges(server: PodcastServer): void {
-    // 创建一个防抖的重新处理函数
+    // 防抖期间累积受影响的播客目录，只重新处理这些目录
+    const pendingDirs = new Set<string>();
+
     const debouncedReprocess = debounce(async () => {
-        console.log('检测到文件变化，正在重新处理播客源...');
-        await server.reprocessSources();
+        const dirs = Array.from(pendingDirs);
+        pendingDirs.clear();
+        console.log(`检测到文件变化，正在重新处理播客源: ${dirs.join(', ')}`);
+        for (const dir of dirs) {
+            try {
+                await server.reprocessSource(dir);
+            } catch {
+                // 错误已在 server 中记录，继续处理其它目录
+            }
+        }
     }, 1000);
 
+    const queueChange = (changedPath: string) => {
+        const dir = getPodcastDir(server.libraryRoots, changedPath);
+        if (!dir) return;
+        pendingDirs.add(dir);
+        debouncedReprocess();
+    };
+
     // 初始化 watcher
-    const watcher = chokidar.watch(server.audioDirectory, {
+    const rootPaths = server.libraryRoots.map(root => root.path);
+    const watcher = chokidar.watch(rootPaths, {
         // 忽略隐藏文件和 feed.xml
         ignored: [
             /(^|[\/\\])\../,  // 隐藏文件
@@ -45,18 +78,26 @@ export function watchFolderChanges(server: PodcastServer): void {
 
     // 监听所有可能的文件变化事件
     watcher
-        .on('add', (path) => {
-            console.log(`[WATCH] 文件被添加: ${path}`);
-            debouncedReprocess();
+        .on('add', (filePath) => {
+            console.log(`[WATCH] 文件被添加: ${filePath}`);
+            queueChange(filePath);
+        })
+        .on('change', (filePath) => {
+            console.log(`[WATCH] 文件被修改: ${filePath}`);
+            console.log('变更详情:', { path: filePath, time: new Date().toISOString() });
+            queueChange(filePath);
+        })
+        .on('unlink', (filePath) => {
+            console.log(`[WATCH] 文件被删除: ${filePath}`);
+            queueChange(filePath);
         })
-        .on('change', (path) => {
-            console.log(`[WATCH] 文件被修改: ${path}`);
-            console.log('变更详情:', { path, time: new Date().toISOString() });
-            debouncedReprocess();
+        .on('addDir', (dirPath) => {
+            console.log(`[WATCH] 文件夹被添加: ${dirPath}`);
+            queueChange(dirPath);
         })
-        .on('unlink', (path) => {
-            console.log(`[WATCH] 文件被删除: ${path}`);
-            debouncedReprocess();
+        .on('unlinkDir', (dirPath) => {
+            console.log(`[WATCH] 文件夹被删除: ${dirPath}`);
+            queueChange(dirPath);
         })
         // 添加更多事件监听以帮助调试
         .on('error', error => console.log(`[WATCH] 错误: ${error}`))
@@ -64,5 +105,5 @@ export function watchFolderChanges(server: PodcastServer): void {
             console.log('[WATCH] Raw event:', { event, path, details });
         });
 
-    console.log(`开始监听文件夹: ${server.audioDirectory}`);
+    console.log(`开始监听文件夹: ${rootPaths.join(', ')}`);
 } 
\ No newline at end of file